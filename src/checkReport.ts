@@ -0,0 +1,89 @@
+// src/checkReport.ts
+import { Chunk } from 'parse-diff';
+import { describeMismatch, describePlacement } from './hunkMatcher';
+import { HunkCheck } from './patchUtils';
+
+/* ────────────────────────────────────────────────────────── */
+/* Dry-run report ("Check Diff", like `git apply --check`)     */
+/* ────────────────────────────────────────────────────────── */
+
+/** Why a file's hunks could not be tried at all. */
+export type FileCheckProblem = 'missing' | 'exists' | 'binary' | 'noTarget' | 'notChosen';
+
+/** One file of the diff, checked against the workspace. */
+export interface FileCheck {
+  /** Workspace-relative path the diff resolved to. */
+  path: string;
+  /** What the diff does with the file, e.g. "modify" or "rename from old.txt". */
+  action: string;
+  problem?: FileCheckProblem;
+  chunks: Chunk[];
+  /** One entry per hunk that was tried; empty when `problem` is set. */
+  checks: HunkCheck[];
+}
+
+export type HunkOutcome = 'clean' | 'offset' | 'fuzz' | 'conflict' | 'notApplied';
+
+export function getHunkOutcome(check: HunkCheck | undefined): HunkOutcome {
+  if (!check) {return 'notApplied';}
+  if (!check.placement) {return 'conflict';}
+  if (check.placement.fuzz > 0) {return 'fuzz';}
+  return check.placement.offset !== 0 ? 'offset' : 'clean';
+}
+
+const PROBLEM_TEXT: Record<FileCheckProblem, string> = {
+  missing: 'file not found',
+  exists: 'file already exists',
+  binary: 'binary patch, not supported',
+  noTarget: 'the diff does not say which file it is for',
+  notChosen: 'several files match and none was chosen'
+};
+
+function describeHunk(chunk: Chunk, check: HunkCheck | undefined): string {
+  const outcome = getHunkOutcome(check);
+  switch (outcome) {
+    case 'clean':
+      return 'applies cleanly';
+    case 'offset':
+    case 'fuzz':
+      return `applies${describePlacement(check!.placement!)}`;
+    case 'conflict':
+      return `conflict at ${describeMismatch(check!.mismatch!)}`;
+    case 'notApplied':
+      return 'not applied';
+  }
+}
+
+/** Plain-text report: one block per file, one line per hunk, totals at the end. */
+export function formatCheckReport(files: FileCheck[]): string {
+  const out: string[] = [];
+  const totals: Record<HunkOutcome, number> = { clean: 0, offset: 0, fuzz: 0, conflict: 0, notApplied: 0 };
+
+  for (const file of files) {
+    out.push(`${file.path} (${file.action})${file.problem ? `: ${PROBLEM_TEXT[file.problem]}` : ''}`);
+    file.chunks.forEach((chunk, index) => {
+      const check = file.checks.find(c => c.hunkIndex === index);
+      totals[getHunkOutcome(check)]++;
+      out.push(`  hunk ${index + 1} ${chunk.content.trim()}: ${describeHunk(chunk, check)}`);
+    });
+  }
+
+  const hunkCount = files.reduce((n, file) => n + file.chunks.length, 0);
+  const problems = files.filter(file => file.problem).length;
+  out.push(
+    '',
+    `Files: ${files.length}${problems ? `, ${problems} with problems` : ''}`,
+    `Hunks: ${hunkCount} — ${totals.clean} clean, ${totals.offset} at an offset, ${totals.fuzz} with fuzz, ` +
+    `${totals.conflict} conflicting, ${totals.notApplied} not applied`
+  );
+  return out.join('\n') + '\n';
+}
+
+/** True when every file can be patched and every hunk applies (possibly at an offset or with fuzz). */
+export function isCheckClean(files: FileCheck[]): boolean {
+  return files.every(file => !file.problem &&
+    file.chunks.every((_, index) => {
+      const outcome = getHunkOutcome(file.checks.find(c => c.hunkIndex === index));
+      return outcome !== 'conflict' && outcome !== 'notApplied';
+    }));
+}
@@ -1,416 +1,1665 @@
 import * as vscode from 'vscode';
-import parseDiff, { File } from 'parse-diff';
+import { Chunk, File } from 'parse-diff';
 import * as nodeFs from 'node:fs';
 import * as nodePath from 'node:path';
-import * as os from 'node:os';
-import { getNewFileContentFromDiff } from './patchUtils'; // Keep this if still used
-import { applyPatchToContent } from './inlineDiffSession'; // Corrected import
+import { LineReplacement, buildLineReplacement, checkHunksAgainstContent, getNewFileContentFromDiff } from './patchUtils';
+import { FileCheck, formatCheckReport, isCheckClean } from './checkReport';
+import { formatFileDiff } from './patchWriter';
+import { mergeHunk } from './threeWayMerge';
+import { GitError, applyPatchToIndex, commitIndex, getRepositoryRoot } from './git';
+import { PatchMessage, SeriesPatch, parsePatchMessage, splitPatchSeries } from './patchMessage';
+import { PathResolver, fileExists, getWorkspaceResolver } from './pathResolver';
+import { stripPath } from './pathMatcher';
 import {
-    activeInlineDiffSession,
-    clearActiveInlineDiffSession,
+    HunkConflictError,
+    buildReplacementHunk,
+    describeMismatch,
+    adaptHunkToTarget,
+    anchorHunkAt,
+    getHunkPostimage,
+    getHunkPreimage,
+    looksAlreadyApplied,
+    placeUnnumberedHunks,
+    reverseHunk,
+    selectHunkLines
+} from './hunkMatcher';
+import { PatchFile, hasModeChange, parsePatch, reversePatchFile } from './patchParser';
+import { DiffBlock, extractDiffBlocks, mergeDiffBlocks, mergeSameFileDiffs } from './diffExtractor';
+import {
+    SearchReplaceBlock,
+    describeSearchReplaceProblem,
+    isSearchReplaceText,
+    parseSearchReplaceBlocks,
+    searchReplaceToFileDiff,
+    searchReplaceToNewFile
+} from './searchReplace';
+import { getMatchOptions, getParseOptions, getStripLevel } from './config';
+import { discardSavedReview, loadSavedReview, saveReview } from './reviewPersistence';
+import {
+    HunkDecision,
+    HunkState,
+    InlineDiffSession,
+    PatchSeries,
+    PatchSeriesPosition,
+    PendingFileOperation,
+    ReviewSession,
+    activeReviewSession,
+    applyPatchToContent,
+    clearActiveReviewSession,
+    disposeInlineDiffSession,
+    findNextPendingHunk,
+    getAppliedChunk,
     getAdjustedStartLineForHunk,
-    updateDecorations,
-    startInlineDiffReview,
+    getAppliedHunk,
+    getDisplayStartLineForHunk,
+    getChangeDisplayLines,
+    getDocumentLines,
+    getHunkConflict,
+    getHunkState,
+    getInlineDiffSession,
+    getUnappliedHunks,
+    isHunkInvalidated,
+    isHunkProcessed,
+    isReviewUnfinished,
+    onDidChangeReviewSession,
+    recordHunkDecision,
+    refreshSession,
+    resolveHunkPlacement,
+    revalidateHunk,
+    revealHunk,
+    revealInlineDiffSession,
+    reviveInlineDiffSession,
+    setHunkState,
+    splitSessionHunk,
+    editSessionHunk,
+    startReview,
+    takeFileOperations,
     previewHunk
 } from './inlineDiffSession';
 
-export function registerApplyHunkOnlyCommand(): vscode.Disposable {
-    return vscode.commands.registerCommand('quick-diff-apply.applyHunkOnly', async (fileUri: vscode.Uri, hunkIndex: number) => {
-        if (!activeInlineDiffSession || activeInlineDiffSession.uri.toString() !== fileUri.toString()) {return;}
-        
-        const { originalFileDiff, editor, netLineChangesByHunkIndex, appliedHunkIndices, skippedHunkIndices } = activeInlineDiffSession;
-        if (appliedHunkIndices.has(hunkIndex) || skippedHunkIndices.has(hunkIndex)) {return;}
+type HunkEditResult = 'done' | 'conflict' | 'invalidated' | 'failed';
 
-        const hunk = originalFileDiff.chunks[hunkIndex];
-        if (!hunk) {
-            vscode.window.showErrorMessage("Invalid hunk index.");
-            return;
-        }
+function getDocumentEol(document: vscode.TextDocument): '\n' | '\r\n' {
+    return document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+}
 
-        const edit = new vscode.WorkspaceEdit();
-        const adjustedStartLine = getAdjustedStartLineForHunk(hunkIndex);
-        
-        // Ensure valid range
-        if (adjustedStartLine < 0 || (hunk.oldLines > 0 && adjustedStartLine + hunk.oldLines > editor.document.lineCount)) {
-            if (!(hunk.oldLines === 0 && adjustedStartLine <= editor.document.lineCount)) {
-                vscode.window.showErrorMessage(`Cannot apply hunk: Invalid line numbers for removal in editor. Adjusted Start: ${adjustedStartLine}, Hunk Old Lines: ${hunk.oldLines}, Total doc lines: ${editor.document.lineCount}`);
-                return;
-            }
-        }
-        
-        const finalRangeToRemove = new vscode.Range(
-            new vscode.Position(adjustedStartLine, 0),
-            new vscode.Position(adjustedStartLine + hunk.oldLines, 0)
-        );
+/** Edit the session's document; the change is not mistaken for a manual edit. */
+async function applyLineReplacement(session: InlineDiffSession, replacement: LineReplacement): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(session.uri, new vscode.Range(
+        replacement.start.line, replacement.start.character,
+        replacement.end.line, replacement.end.character
+    ), replacement.text);
+    session.editsInFlight++;
+    try {
+        return await vscode.workspace.applyEdit(edit);
+    } finally {
+        session.editsInFlight--;
+    }
+}
 
-        let newTextForHunk = "";
-        hunk.changes.forEach(change => {
-            if (change.type === 'add' || change.type === 'normal') {
-                newTextForHunk += change.content.substring(1) + '\n';
-            }
+/**
+ * Replace the lines a hunk was located at with its postimage, in the
+ * document's line ending. Context lines ignored through fuzz are left
+ * untouched. A hunk whose context/deleted lines cannot be found is reported
+ * as a conflict and the document is not touched. `written` is what to write
+ * instead of the hunk: some of its lines only, or its merge with the file.
+ * When whitespace is ignored, the hunk is first adapted to the file's
+ * whitespace and indentation.
+ */
+async function applyHunkEdit(session: InlineDiffSession, hunkIndex: number, written?: Chunk): Promise<HunkEditResult> {
+    const hunk = written ?? session.originalFileDiff.chunks[hunkIndex];
+    if (isHunkInvalidated(session, hunkIndex)) {return 'invalidated';}
+
+    const lines = getDocumentLines(session.document);
+    const placement = resolveHunkPlacement(session, hunkIndex, lines, hunk);
+    if (!placement) {return 'conflict';}
+
+    const adapted = adaptHunkToTarget(lines, hunk, placement, getMatchOptions(session.document.uri));
+    const postimage = getHunkPostimage(adapted);
+    const replacement = buildLineReplacement(
+        lines,
+        getDocumentEol(session.document),
+        placement.line + placement.leadingTrimmed,
+        placement.line + getHunkPreimage(hunk).length - placement.trailingTrimmed,
+        postimage.slice(placement.leadingTrimmed, postimage.length - placement.trailingTrimmed),
+        adapted
+    );
+
+    const oldLineCount = session.document.lineCount;
+    if (!await applyLineReplacement(session, replacement)) {return 'failed';}
+    setHunkState(session, hunkIndex, 'applied', {
+        placement,
+        lineDelta: session.document.lineCount - oldLineCount,
+        chunk: adapted !== hunk ? adapted : written
+    });
+    return 'done';
+}
+
+/**
+ * Put back the lines an applied hunk replaced, at the place it was applied.
+ * If the applied lines were edited since, nothing is touched and the revert
+ * is reported as a conflict.
+ */
+async function revertHunkEdit(session: InlineDiffSession, hunkIndex: number): Promise<HunkEditResult> {
+    const applied = getAppliedHunk(session, hunkIndex);
+    const placement = resolveHunkPlacement(session, hunkIndex);
+    if (!applied || !placement) {return 'failed';}
+
+    const reversed = reverseHunk(getAppliedChunk(session, hunkIndex));
+    const { leadingTrimmed, trailingTrimmed } = placement;
+    const appliedLines = getHunkPreimage(reversed);
+    const restoredLines = getHunkPostimage(reversed);
+    const current = appliedLines.slice(leadingTrimmed, appliedLines.length - trailingTrimmed);
+    const start = placement.line + leadingTrimmed;
+
+    const docLines = getDocumentLines(session.document);
+    if (current.some((line, i) => docLines[start + i] !== line)) {return 'conflict';}
+
+    const replacement = buildLineReplacement(
+        docLines,
+        getDocumentEol(session.document),
+        start,
+        start + current.length,
+        restoredLines.slice(leadingTrimmed, restoredLines.length - trailingTrimmed),
+        reversed
+    );
+    if (!await applyLineReplacement(session, replacement)) {return 'failed';}
+    setHunkState(session, hunkIndex, 'pending');
+    return 'done';
+}
+
+/** Move a hunk to another state, editing the document when it is applied (as it is or as `written`) or reverted. */
+async function changeHunkState(
+    session: InlineDiffSession,
+    hunkIndex: number,
+    to: HunkState,
+    written?: Chunk
+): Promise<HunkEditResult> {
+    const from = getHunkState(session, hunkIndex);
+    if (from === to) {return 'done';}
+    if (from === 'applied') {
+        const reverted = await revertHunkEdit(session, hunkIndex);
+        if (reverted !== 'done') {return reverted;}
+    }
+    if (to === 'applied') {
+        return applyHunkEdit(session, hunkIndex, written);
+    }
+    setHunkState(session, hunkIndex, to);
+    return 'done';
+}
+
+/** Like changeHunkState, but remembers the decision so it can be undone. */
+async function decideHunk(session: InlineDiffSession, hunkIndex: number, to: HunkState, written?: Chunk): Promise<HunkEditResult> {
+    const from = getHunkState(session, hunkIndex);
+    const textBefore = session.document.getText();
+    const appliedBefore = getAppliedHunk(session, hunkIndex);
+
+    const result = await changeHunkState(session, hunkIndex, to, written);
+    if (result === 'done' && from !== to) {
+        recordHunkDecision({
+            session,
+            hunkIndex,
+            from,
+            to,
+            textBefore,
+            textAfter: session.document.getText(),
+            applied: appliedBefore ?? getAppliedHunk(session, hunkIndex)
         });
-        if (hunk.newLines === 0 && newTextForHunk === "\n") {
-            newTextForHunk = "";
+    }
+    return result;
+}
+
+/**
+ * Apply every pending, non-conflicting hunk of one file in order. Returns the
+ * indices of conflicting (or hand-edited) hunks, or undefined if an edit
+ * failed outright.
+ */
+async function applyRemainingHunks(session: InlineDiffSession): Promise<number[] | undefined> {
+    const conflicts: number[] = [];
+    for (let i = 0; i < session.originalFileDiff.chunks.length; i++) {
+        if (isHunkProcessed(session, i)) {
+            continue;
         }
 
-        edit.replace(fileUri, finalRangeToRemove, newTextForHunk);
-        
         try {
-            const oldLineCount = editor.document.lineCount;
-            const success = await vscode.workspace.applyEdit(edit);
-            if (success) {
-                const newLineCount = editor.document.lineCount;
-                const actualLineDelta = newLineCount - oldLineCount;
-
-                vscode.window.showInformationMessage(`Hunk ${hunkIndex + 1} applied.`);
-                appliedHunkIndices.add(hunkIndex);
-                netLineChangesByHunkIndex.set(hunkIndex, actualLineDelta);
-                
-                updateDecorations();
-                activeInlineDiffSession.codeLensProvider.refresh();
-
-                const allHunksProcessed = originalFileDiff.chunks.every((_, idx) => 
-                    appliedHunkIndices.has(idx) || skippedHunkIndices.has(idx));
-                if (allHunksProcessed) {
-                    vscode.window.showInformationMessage("All hunks processed.");
-                    clearActiveInlineDiffSession();
+            const result = await decideHunk(session, i, 'applied');
+            if (result === 'conflict' || result === 'invalidated') {
+                conflicts.push(i);
+                continue;
+            }
+            if (result === 'failed') {
+                vscode.window.showErrorMessage(`Failed to apply hunk ${i + 1} during 'Apply All'.`);
+                refreshSession(session);
+                return undefined;
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Error applying hunk ${i + 1} during 'Apply All': ${e.message}`);
+            refreshSession(session);
+            return undefined;
+        }
+    }
+    return conflicts;
+}
+
+/** Say why a hunk was not applied and offer to reject it or merge it anyway. */
+async function showConflictMessage(session: InlineDiffSession, hunkIndex: number) {
+    const conflict = getHunkConflict(session, hunkIndex);
+    const detail = conflict ? ` at ${describeMismatch(conflict)}` : '';
+    const choice = await vscode.window.showWarningMessage(
+        `Hunk ${hunkIndex + 1} does not match the file${detail}. It was not applied.`,
+        'Reject this Hunk', 'Merge with Conflicts'
+    );
+    if (choice === 'Reject this Hunk') {
+        await vscode.commands.executeCommand('quick-diff-apply.skipHunk', session.uri, hunkIndex);
+    } else if (choice === 'Merge with Conflicts') {
+        await vscode.commands.executeCommand('quick-diff-apply.mergeHunk', session.uri, hunkIndex);
+    }
+}
+
+/** Contents of a rename/copy target: the source file with the file's hunks applied. */
+async function readPatchedSource(op: PendingFileOperation): Promise<string | undefined> {
+    const source = Buffer.from(await vscode.workspace.fs.readFile(op.sourceUri!)).toString('utf8');
+    try {
+        return applyPatchToContent(source, op.fileDiff, getMatchOptions(op.uri));
+    } catch (e) {
+        if (!(e instanceof HunkConflictError)) {throw e;}
+        vscode.window.showWarningMessage(`Cannot ${op.kind} ${workspaceRelativePath(op.sourceUri!)}: ${e.message}. Skipping this file.`);
+        return undefined;
+    }
+}
+
+function applyFileMode(uri: vscode.Uri, mode: string) {
+    if (uri.scheme !== 'file') {return;}
+    try {
+        nodeFs.chmodSync(uri.fsPath, parseInt(mode, 8) & 0o777);
+    } catch (e: any) {
+        vscode.window.showWarningMessage(`Could not change mode of ${workspaceRelativePath(uri)} to ${mode}: ${e.message}`);
+    }
+}
+
+/** Ask before a file the patch creates, renames or copies to replaces one that is already there. */
+async function confirmOverwrite(op: PendingFileOperation): Promise<boolean> {
+    const action = op.kind === 'create' ? 'creates' : op.kind === 'rename' ? 'renames a file to' : 'copies a file to';
+    const choice = await vscode.window.showWarningMessage(
+        `The patch ${action} ${workspaceRelativePath(op.uri)}, but that file already exists. Overwrite it?`,
+        { modal: true },
+        'Overwrite'
+    );
+    return choice === 'Overwrite';
+}
+
+/**
+ * Write the patch's whole-file changes. Creations, deletions, renames and
+ * copies go into one `WorkspaceEdit` (a renamed file is moved, then its
+ * patched contents are written); mode changes are applied afterwards. A
+ * created, renamed or copied file only replaces an existing one if the user
+ * says so.
+ */
+async function applyFileOperations(operations: PendingFileOperation[]): Promise<number> {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const applied: PendingFileOperation[] = [];
+    for (const op of operations) {
+        if (op.kind === 'delete') {
+            workspaceEdit.deleteFile(op.uri, { ignoreIfNotExists: true });
+        } else if (op.kind === 'create') {
+            const exists = await fileExists(op.uri);
+            if (exists && !await confirmOverwrite(op)) {continue;}
+            workspaceEdit.createFile(op.uri, {
+                overwrite: exists,
+                contents: Buffer.from(getNewFileContentFromDiff(op.fileDiff))
+            });
+        } else if (op.kind === 'rename' || op.kind === 'copy') {
+            const contents = await readPatchedSource(op);
+            if (contents === undefined) {continue;}
+            const exists = await fileExists(op.uri);
+            if (exists && !await confirmOverwrite(op)) {continue;}
+            if (op.kind === 'rename') {
+                workspaceEdit.renameFile(op.sourceUri!, op.uri, { overwrite: exists });
+                if (op.fileDiff.chunks.length > 0) {
+                    workspaceEdit.createFile(op.uri, { overwrite: true, contents: Buffer.from(contents) });
                 }
             } else {
-                vscode.window.showErrorMessage(`Failed to apply hunk ${hunkIndex + 1}. The editor might be in an inconsistent state.`);
+                workspaceEdit.createFile(op.uri, { overwrite: exists, contents: Buffer.from(contents) });
             }
-        } catch (e: any) { 
-            vscode.window.showErrorMessage(`Error applying hunk: ${e.message}`);
         }
+        applied.push(op);
+    }
+    if (applied.length === 0) {return 0;}
+    if (applied.some(op => op.kind !== 'mode') && !await vscode.workspace.applyEdit(workspaceEdit)) {
+        vscode.window.showErrorMessage(`Could not apply the patch's file operations: ${applied.map(describeFileOperation).join('; ')}.`);
+        return 0;
+    }
 
-        // After applying, preview the next unprocessed hunk
-        const nextHunkIndex = originalFileDiff.chunks.findIndex((_, idx) =>
-            !appliedHunkIndices.has(idx) && !skippedHunkIndices.has(idx)
-        );
-        if (nextHunkIndex !== -1) {
-            await previewHunk(nextHunkIndex);
+    for (const op of applied) {
+        if (op.kind === 'mode' || (op.kind === 'create' && op.fileDiff.newMode)) {
+            applyFileMode(op.uri, op.fileDiff.newMode!);
+        }
+    }
+    return applied.length;
+}
+
+function workspaceRelativePath(uri: vscode.Uri): string {
+    return vscode.workspace.asRelativePath(uri, false);
+}
+
+function describeFileOperation(op: PendingFileOperation): string {
+    const target = workspaceRelativePath(op.uri);
+    const hunks = op.fileDiff.chunks.length > 0 ? `, then apply ${op.fileDiff.chunks.length} hunk(s)` : '';
+    const similarity = op.fileDiff.similarity !== undefined ? ` (similarity ${op.fileDiff.similarity}%)` : '';
+    switch (op.kind) {
+        case 'create': return `Create ${target}`;
+        case 'delete': return `Delete ${target}`;
+        case 'rename': return `Rename ${workspaceRelativePath(op.sourceUri!)} → ${target}${similarity}${hunks}`;
+        case 'copy':   return `Copy ${workspaceRelativePath(op.sourceUri!)} → ${target}${similarity}${hunks}`;
+        case 'mode':   return `Change mode of ${target}: ${op.fileDiff.oldMode} → ${op.fileDiff.newMode}`;
+    }
+}
+
+async function confirmFileOperations(operations: PendingFileOperation[]) {
+    const confirmation = await vscode.window.showInformationMessage(
+        `The patch also contains ${operations.length} file operation(s). Apply them?`,
+        { modal: true, detail: operations.map(describeFileOperation).join('\n') },
+        'Apply File Changes', 'Skip'
+    );
+    if (confirmation === 'Apply File Changes') {
+        const count = await applyFileOperations(operations);
+        vscode.window.showInformationMessage(`Applied ${count} file operation(s).`);
+    }
+}
+
+/**
+ * A file is done: drop its session and move on to the next file of the
+ * patch. Once no modified files are left, new/deleted files are confirmed
+ * and the review ends.
+ */
+async function finishInlineDiffSession(session: InlineDiffSession) {
+    disposeInlineDiffSession(session);
+    const review = activeReviewSession;
+    if (!review) {return;}
+
+    const next = review.fileSessions[0];
+    if (next) {
+        await revealInlineDiffSession(next);
+        return;
+    }
+    // The review object stays around (without lenses) so decisions can still be undone
+    const operations = takeFileOperations(review);
+    if (operations.length > 0) {
+        await confirmFileOperations(operations);
+    }
+}
+
+/** "All hunks processed", offering to stage the applied hunks when the file is in a git repository. */
+async function showFileFinishedMessage(session: InlineDiffSession) {
+    if (session.appliedHunkIndices.size === 0 || !await getSessionRepository(session)) {
+        vscode.window.showInformationMessage("All hunks processed.");
+        return;
+    }
+    // Not awaited: the review moves on to the next file while the message is shown
+    vscode.window.showInformationMessage("All hunks processed.", 'Stage Applied Hunks').then(choice => {
+        if (choice === 'Stage Applied Hunks') {
+            vscode.commands.executeCommand('quick-diff-apply.stageAppliedHunks', session.uri);
         }
     });
 }
 
+/** After a decision: finish the file if nothing is pending, else preview the next hunk. */
+async function advanceInlineDiffSession(session: InlineDiffSession) {
+    const nextHunkIndex = findNextPendingHunk(session);
+    if (nextHunkIndex === -1) {
+        await showFileFinishedMessage(session);
+        await finishInlineDiffSession(session);
+        return;
+    }
+    await previewHunk(session, nextHunkIndex);
+}
+
+/** Apply a hunk (or the `partial` hunk made of some of its lines), report why it could not be, and move on. */
+async function applyHunkAndAdvance(session: InlineDiffSession, hunkIndex: number, partial?: Chunk) {
+    try {
+        const result = await decideHunk(session, hunkIndex, 'applied', partial);
+        if (result === 'invalidated') {
+            const choice = await vscode.window.showWarningMessage(
+                `The lines of hunk ${hunkIndex + 1} were edited by hand. Re-check it before applying.`,
+                'Re-check this Hunk'
+            );
+            if (choice === 'Re-check this Hunk') {
+                await vscode.commands.executeCommand('quick-diff-apply.recheckHunk', session.uri, hunkIndex);
+            }
+            return;
+        }
+        if (result === 'conflict') {
+            refreshSession(session);
+            await showConflictMessage(session, hunkIndex);
+            return;
+        }
+        if (result === 'done') {
+            vscode.window.showInformationMessage(partial
+                ? `Selected lines of hunk ${hunkIndex + 1} applied.`
+                : `Hunk ${hunkIndex + 1} applied.`);
+            refreshSession(session);
+        } else {
+            vscode.window.showErrorMessage(`Failed to apply hunk ${hunkIndex + 1}. The editor might be in an inconsistent state.`);
+        }
+    } catch (e: any) {
+        vscode.window.showErrorMessage(`Error applying hunk: ${e.message}`);
+    }
+
+    await advanceInlineDiffSession(session);
+}
+
+export function registerApplyHunkOnlyCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyHunkOnly', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session) {return;}
+        if (isHunkProcessed(session, hunkIndex)) {return;}
+
+        const hunk = session.originalFileDiff.chunks[hunkIndex];
+        if (!hunk) {
+            vscode.window.showErrorMessage("Invalid hunk index.");
+            return;
+        }
+        await applyHunkAndAdvance(session, hunkIndex);
+    });
+}
+
+/**
+ * Apply only some `+`/`-` lines of a hunk. Run from the keyboard, the lines
+ * are the ones under the cursor or selection (removed lines and the phantom
+ * added lines below the hunk). From the code lens, or when the selection
+ * covers none of them, they are picked from a list.
+ */
+export function registerApplySelectedLinesCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applySelectedLines', async (fileUri?: vscode.Uri, hunkIndex?: number) => {
+        const review = activeReviewSession;
+        if (!review) {return;}
+        const current = fileUri && hunkIndex !== undefined
+            ? { session: getInlineDiffSession(fileUri), hunkIndex }
+            : getCurrentHunk(review);
+        const session = current?.session;
+        if (!current || !session || isHunkProcessed(session, current.hunkIndex)) {return;}
+        const index = current.hunkIndex;
+
+        const chunk = session.originalFileDiff.chunks[index];
+        const displayLines = getChangeDisplayLines(session, index);
+        const editor = vscode.window.activeTextEditor;
+        const selections = editor?.document.uri.toString() === session.uri.toString() ? editor.selections : [];
+        const underSelection = [...displayLines]
+            .filter(([, line]) => selections.some(selection => selection.start.line <= line && line <= selection.end.line))
+            .map(([changeIndex]) => changeIndex);
+
+        let chosen = underSelection;
+        if (fileUri || chosen.length === 0) {
+            const items = [...displayLines.keys()].sort((a, b) => a - b).map(changeIndex => ({
+                label: chunk.changes[changeIndex].content,
+                picked: underSelection.includes(changeIndex),
+                changeIndex
+            }));
+            const picked = await vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                title: `Hunk ${index + 1}: choose the lines to apply`,
+                placeHolder: 'Removed lines that are not chosen stay; added lines that are not chosen are dropped'
+            });
+            if (!picked || picked.length === 0) {return;}
+            chosen = picked.map(item => item.changeIndex);
+        }
+
+        const partial = chosen.length < displayLines.size ? selectHunkLines(chunk, chosen) : undefined;
+        await applyHunkAndAdvance(session, index, partial);
+    });
+}
+
 export function registerSkipHunkCommand(): vscode.Disposable {
     return vscode.commands.registerCommand('quick-diff-apply.skipHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
-        if (!activeInlineDiffSession || activeInlineDiffSession.uri.toString() !== fileUri.toString()) {return;}
-        if (activeInlineDiffSession.appliedHunkIndices.has(hunkIndex)) {return;}
-
-        activeInlineDiffSession.skippedHunkIndices.add(hunkIndex);
-        updateDecorations();
-        activeInlineDiffSession.codeLensProvider.refresh();
-
-        const { originalFileDiff, appliedHunkIndices, skippedHunkIndices } = activeInlineDiffSession;
-        const allHunksProcessed = originalFileDiff.chunks.every((_, idx) => 
-            appliedHunkIndices.has(idx) || skippedHunkIndices.has(idx));
-        if (allHunksProcessed) {
-            vscode.window.showInformationMessage("All hunks processed.");
-            clearActiveInlineDiffSession();
-        }
-        
-        // Preview next unprocessed hunk
-        const nextHunkIndex = originalFileDiff.chunks.findIndex((_, idx) =>
-            !appliedHunkIndices.has(idx) && !skippedHunkIndices.has(idx)
-        );
-        if (nextHunkIndex !== -1) {
-            await previewHunk(nextHunkIndex);
+        const session = getInlineDiffSession(fileUri);
+        if (!session) {return;}
+        if (session.appliedHunkIndices.has(hunkIndex)) {return;}
+
+        await decideHunk(session, hunkIndex, 'skipped');
+        refreshSession(session);
+
+        await advanceInlineDiffSession(session);
+    });
+}
+
+export function registerRevertHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.revertHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || getHunkState(session, hunkIndex) !== 'applied') {return;}
+
+        const result = await decideHunk(session, hunkIndex, 'pending');
+        if (result === 'conflict') {
+            vscode.window.showWarningMessage(`Hunk ${hunkIndex + 1} was edited after it was applied and cannot be reverted automatically.`);
+            return;
         }
+        if (result === 'failed') {
+            vscode.window.showErrorMessage(`Failed to revert hunk ${hunkIndex + 1}.`);
+            return;
+        }
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
+    });
+}
+
+export function registerReconsiderHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.reconsiderHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || getHunkState(session, hunkIndex) !== 'skipped') {return;}
+
+        await decideHunk(session, hunkIndex, 'pending');
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
+    });
+}
+
+/**
+ * Take one decision back (undo) or forward again (redo). A file that was
+ * already finished comes back under review when one of its hunks becomes
+ * pending again.
+ */
+async function replayHunkDecision(review: ReviewSession, undo: boolean) {
+    const stack = undo ? review.undoStack : review.redoStack;
+    const decision: HunkDecision | undefined = stack.pop();
+    if (!decision) {
+        vscode.window.showInformationMessage(undo ? 'No hunk decision to undo.' : 'No hunk decision to redo.');
+        return;
+    }
+    const { session, hunkIndex } = decision;
+    const state = undo ? decision.from : decision.to;
+    const label = `hunk ${hunkIndex + 1} of ${workspaceRelativePath(session.uri)}`;
+
+    const document = await vscode.workspace.openTextDocument(session.uri);
+    session.document = document;
+    const textBefore = document.getText();
+    const result = await changeHunkState(session, hunkIndex, state, state === 'applied' ? decision.applied?.chunk : undefined);
+    if (result !== 'done') {
+        stack.push(decision);
+        vscode.window.showWarningMessage(`Cannot ${undo ? 'undo' : 'redo'} the decision on ${label}: the file was edited since.`);
+        return;
+    }
+
+    // Keep the recorded texts current so an editor undo/redo still recognises the edit
+    if (undo) {
+        decision.textAfter = textBefore;
+        decision.textBefore = document.getText();
+    } else {
+        decision.textBefore = textBefore;
+        decision.textAfter = document.getText();
+    }
+    decision.applied = getAppliedHunk(session, hunkIndex) ?? decision.applied;
+    (undo ? review.redoStack : review.undoStack).push(decision);
+
+    if (state === 'pending') {
+        reviveInlineDiffSession(session, document);
+        await vscode.window.showTextDocument(session.uri, { preview: false });
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
+    } else if (review.fileSessions.includes(session)) {
+        refreshSession(session);
+        await advanceInlineDiffSession(session);
+    }
+}
+
+export function registerUndoHunkDecisionCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.undoHunkDecision', async () => {
+        if (!activeReviewSession) {return;}
+        await replayHunkDecision(activeReviewSession, true);
+    });
+}
+
+export function registerRedoHunkDecisionCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.redoHunkDecision', async () => {
+        if (!activeReviewSession) {return;}
+        await replayHunkDecision(activeReviewSession, false);
     });
 }
 
 export function registerApplyAllRemainingCommand(): vscode.Disposable {
     return vscode.commands.registerCommand('quick-diff-apply.applyAllRemainingInFile', async (fileUri: vscode.Uri) => {
-        if (!activeInlineDiffSession || activeInlineDiffSession.uri.toString() !== fileUri.toString()) {return;}
+        const session = getInlineDiffSession(fileUri);
+        if (!session) {return;}
 
-        const { originalFileDiff, editor, skippedHunkIndices, appliedHunkIndices, netLineChangesByHunkIndex } = activeInlineDiffSession;
-        
-        // Process hunks in order
-        for (let i = 0; i < originalFileDiff.chunks.length; i++) {
-            if (appliedHunkIndices.has(i) || skippedHunkIndices.has(i)) {
-                continue;
+        // Conflicting hunks are left pending for review
+        const conflicts = await applyRemainingHunks(session);
+        if (!conflicts) {return;}
+
+        if (conflicts.length > 0) {
+            refreshSession(session);
+            await previewHunk(session, conflicts[0]);
+            vscode.window.showWarningMessage(
+                `${conflicts.length} conflicting or hand-edited hunk(s) were not applied: ${conflicts.map(i => `#${i + 1}`).join(', ')}. ` +
+                'Review or reject them to finish.'
+            );
+            return;
+        }
+
+        vscode.window.showInformationMessage("All remaining hunks applied.");
+        await finishInlineDiffSession(session);
+    });
+}
+
+export function registerApplyAllRemainingInReviewCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyAllRemainingInReview', async () => {
+        const review = activeReviewSession;
+        if (!review) {return;}
+
+        let conflictCount = 0;
+        for (const session of [...review.fileSessions]) {
+            const conflicts = await applyRemainingHunks(session);
+            if (!conflicts) {return;}
+            if (conflicts.length > 0) {
+                conflictCount += conflicts.length;
+                refreshSession(session);
+            } else {
+                disposeInlineDiffSession(session);
             }
+        }
 
-            const hunk = originalFileDiff.chunks[i];
-            const edit = new vscode.WorkspaceEdit();
-            const adjustedStartLine = getAdjustedStartLineForHunk(i);
+        const operations = takeFileOperations(review);
+        if (operations.length > 0) {
+            await confirmFileOperations(operations);
+        }
 
-            const rangeToRemove = new vscode.Range(
-                new vscode.Position(adjustedStartLine, 0),
-                new vscode.Position(adjustedStartLine + hunk.oldLines, 0)
+        if (conflictCount > 0) {
+            await revealInlineDiffSession(review.fileSessions[0]);
+            vscode.window.showWarningMessage(
+                `${conflictCount} conflicting or hand-edited hunk(s) in ${review.fileSessions.length} file(s) were not applied. ` +
+                'Review or reject them to finish.'
             );
-            let newTextForHunk = "";
-            hunk.changes.forEach(change => {
-                if (change.type === 'add' || change.type === 'normal') {
-                    newTextForHunk += change.content.substring(1) + '\n';
-                }
-            });
-            if (hunk.newLines === 0 && newTextForHunk === "\n") {
-                newTextForHunk = "";
-            }
-            
-            edit.replace(fileUri, rangeToRemove, newTextForHunk);
+            return;
+        }
 
-            try {
-                const oldLineCount = editor.document.lineCount;
-                const success = await vscode.workspace.applyEdit(edit);
-                if (success) {
-                    const newLineCount = editor.document.lineCount;
-                    const actualLineDelta = newLineCount - oldLineCount;
-
-                    appliedHunkIndices.add(i);
-                    netLineChangesByHunkIndex.set(i, actualLineDelta);
-                } else {
-                    vscode.window.showErrorMessage(`Failed to apply hunk ${i + 1} during 'Apply All'.`);
-                    updateDecorations();
-                    activeInlineDiffSession.codeLensProvider.refresh();
-                    return; 
-                }
-            } catch (e: any) {
-                vscode.window.showErrorMessage(`Error applying hunk ${i + 1} during 'Apply All': ${e.message}`);
-                updateDecorations();
-                activeInlineDiffSession.codeLensProvider.refresh();
+        vscode.window.showInformationMessage("All remaining changes in the patch applied.");
+    });
+}
+
+export function registerShowHunkConflictCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.showHunkConflict', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session) {return;}
+        await previewHunk(session, hunkIndex);
+        await showConflictMessage(session, hunkIndex);
+    });
+}
+
+/**
+ * Write a hunk that does not apply merged with the file, like
+ * `git apply --3way`: what only one side changed is taken as it is, what
+ * both changed is left between conflict markers for the editor's merge
+ * code lenses. The merge counts as applying the hunk, so it can be reverted
+ * and undone like any other.
+ */
+export function registerMergeHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.mergeHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || isHunkProcessed(session, hunkIndex)) {return;}
+        const hunk = session.originalFileDiff.chunks[hunkIndex];
+        if (!hunk) {return;}
+
+        // Leave out the empty line after a final newline; it is not part of the text
+        const docLines = getDocumentLines(session.document);
+        const lines = docLines.length > 1 && docLines[docLines.length - 1] === '' ? docLines.slice(0, -1) : docLines;
+        const merge = mergeHunk(lines, hunk, getAdjustedStartLineForHunk(session, hunkIndex), `patch (hunk ${hunkIndex + 1})`);
+        const written = buildReplacementHunk(lines.slice(merge.start, merge.end), merge.lines, merge.start, merge.start + 1);
+
+        try {
+            const result = await decideHunk(session, hunkIndex, 'applied', written);
+            if (result !== 'done') {
+                vscode.window.showErrorMessage(`Failed to merge hunk ${hunkIndex + 1}.`);
                 return;
             }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Error merging hunk: ${e.message}`);
+            return;
+        }
+        refreshSession(session);
+        if (merge.conflicts > 0) {
+            vscode.window.showWarningMessage(
+                `Hunk ${hunkIndex + 1} merged with ${merge.conflicts} conflict(s). Resolve them in the editor.`
+            );
+        } else {
+            vscode.window.showInformationMessage(`Hunk ${hunkIndex + 1} merged without conflicts.`);
+        }
+        await advanceInlineDiffSession(session);
+    });
+}
+
+export function registerRecheckHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.recheckHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || !isHunkInvalidated(session, hunkIndex)) {return;}
+
+        revalidateHunk(session, hunkIndex);
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
+        const conflict = getHunkConflict(session, hunkIndex);
+        if (conflict) {
+            vscode.window.showWarningMessage(`Hunk ${hunkIndex + 1} no longer matches the file at ${describeMismatch(conflict)}.`);
         }
-        
-        vscode.window.showInformationMessage("All remaining hunks applied.");
-        clearActiveInlineDiffSession();
+    });
+}
+
+export function registerSplitHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.splitHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || isHunkProcessed(session, hunkIndex)) {return;}
+
+        if (splitSessionHunk(session, hunkIndex) < 2) {return;}
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
+    });
+}
+
+/**
+ * Let the user edit what a pending hunk writes: its postimage opens in an
+ * untitled editor beside the file, and "Use Edited Hunk" makes the text
+ * the hunk's new result. The editor is closed without saving either way.
+ */
+export function registerEditHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.editHunk', async (fileUri: vscode.Uri, hunkIndex: number) => {
+        const session = getInlineDiffSession(fileUri);
+        if (!session || isHunkProcessed(session, hunkIndex)) {return;}
+        const chunk = session.originalFileDiff.chunks[hunkIndex];
+
+        const editDocument = await vscode.workspace.openTextDocument({
+            content: getHunkPostimage(chunk).join('\n'),
+            language: session.document.languageId
+        });
+        await vscode.window.showTextDocument(editDocument, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+        const choice = await vscode.window.showInformationMessage(
+            `Edit the lines hunk ${hunkIndex + 1} should leave in ${nodePath.basename(fileUri.fsPath)}, then use them.`,
+            'Use Edited Hunk',
+            'Cancel'
+        );
+        const postimage = editDocument.isClosed ? undefined : editDocument.getText().split(/\r?\n/);
+        if (!editDocument.isClosed) {
+            await vscode.window.showTextDocument(editDocument);
+            await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+        }
+        if (choice !== 'Use Edited Hunk' || !postimage) {return;}
+
+        if (getInlineDiffSession(fileUri) !== session || session.originalFileDiff.chunks[hunkIndex] !== chunk ||
+            !editSessionHunk(session, hunkIndex, postimage)) {
+            vscode.window.showWarningMessage(`Hunk ${hunkIndex + 1} changed while it was being edited. The edit was not used.`);
+            return;
+        }
+        await previewHunk(session, hunkIndex);
+        refreshSession(session);
     });
 }
 
 export function registerDiscardAllCommand(): vscode.Disposable {
     return vscode.commands.registerCommand('quick-diff-apply.discardAllInFile', async (fileUri: vscode.Uri) => {
-        if (!activeInlineDiffSession || activeInlineDiffSession.uri.toString() !== fileUri.toString()) {return;}
-        clearActiveInlineDiffSession();
+        const session = getInlineDiffSession(fileUri);
+        if (!session) {return;}
         vscode.window.showInformationMessage("Changes discarded for this file.");
+        await finishInlineDiffSession(session);
     });
 }
 
-export function registerApplyDiffCommand(): vscode.Disposable {
-    return vscode.commands.registerCommand('quick-diff-apply.applyDiff', async (contextUri?: vscode.Uri) => {
-        let tempDir: string | undefined;
-        // Clear previous session if contextUri is different or not provided and a session exists.
-        // If contextUri is the same as active session, we might want to refresh or re-evaluate.
-        // For simplicity, if called for a new context, clear old one.
-        if (activeInlineDiffSession && (!contextUri || activeInlineDiffSession.uri.toString() !== contextUri.toString())) {
-            clearActiveInlineDiffSession();
-        }
+/**
+ * When some blocks change the same lines as others they are alternatives
+ * (e.g. a chat answer's first attempt and its correction), so ask which to
+ * use. Blocks that clash with an earlier one start unticked.
+ */
+async function chooseDiffBlocks(blocks: DiffBlock[]): Promise<DiffBlock[] | undefined> {
+    if (!blocks.some(block => block.conflictsWith.length > 0)) {return blocks;}
+
+    const items = blocks.map((block, i) => ({
+        label: `Diff ${i + 1}`,
+        description: `${block.fenced ? 'fenced' : 'bare'} diff at line ${block.line + 1}`,
+        detail: block.files.join(', ') +
+            (block.conflictsWith.length ? ` (overlaps diff ${block.conflictsWith.map(j => j + 1).join(', ')})` : ''),
+        picked: !block.conflictsWith.some(j => j < i),
+        block
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: 'Some diffs in the text change the same lines. Choose the ones to apply.'
+    });
+    return picked && picked.length > 0 ? picked.map(item => item.block) : undefined;
+}
+
+/**
+ * The file for edits that do not name one: the file the command was run on,
+ * else the active editor unless that is `sourceUri`, the text being applied.
+ */
+function getHeaderlessTarget(what: string, contextUri?: vscode.Uri, sourceUri?: vscode.Uri): vscode.Uri | undefined {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const target = contextUri ?? (activeUri?.toString() !== sourceUri?.toString() ? activeUri : undefined);
+    if (!target) {
+        vscode.window.showWarningMessage(
+            `${what} does not say which file it is for. Open that file, or right-click it and choose "Apply Diff from Clipboard".`
+        );
+    }
+    return target;
+}
+
+/**
+ * Turn SEARCH/REPLACE blocks into file diffs against the current text of
+ * their files, so they are reviewed like any other hunks. Blocks that cannot
+ * be placed are reported and left out.
+ */
+async function readSearchReplaceEdits(
+    text: string,
+    resolve: PathResolver,
+    contextUri?: vscode.Uri,
+    sourceUri?: vscode.Uri
+): Promise<PatchFile[]> {
+    const blocksByPath = new Map<string | undefined, SearchReplaceBlock[]>();
+    for (const block of parseSearchReplaceBlocks(text)) {
+        blocksByPath.set(block.path, [...blocksByPath.get(block.path) ?? [], block]);
+    }
 
+    const files: PatchFile[] = [];
+    const problems: string[] = [];
+    for (const [path, blocks] of blocksByPath) {
+        const uri = path ? await resolve(path) : getHeaderlessTarget('The SEARCH/REPLACE text', contextUri, sourceUri);
+        if (!uri) {continue;}
 
+        let document: vscode.TextDocument;
         try {
-            const diffText = await vscode.env.clipboard.readText();
-            if (!diffText) {
-                vscode.window.showWarningMessage('Clipboard is empty.');
-                return;
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch {
+            if (path && blocks.every(block => block.search.length === 0)) {
+                files.push(searchReplaceToNewFile(blocks, path));
+            } else {
+                problems.push(`block(s) ${blocks.map(block => block.number).join(', ')}: file ${path ?? workspaceRelativePath(uri)} not found`);
             }
+            continue;
+        }
 
-            const parsedFiles: File[] = parseDiff(diffText);
-            if (parsedFiles.length === 0) {
-                vscode.window.showWarningMessage('No diff information found.');
-                return;
-            }
+        const { fileDiff, problems: blockProblems } = searchReplaceToFileDiff(getDocumentLines(document), blocks, path);
+        fileDiff.headerless = !path;
+        if (fileDiff.chunks.length > 0) {
+            files.push(fileDiff);
+        }
+        problems.push(...blockProblems.map(describeSearchReplaceProblem));
+    }
 
-            const workspaceRootUri = vscode.workspace.workspaceFolders?.[0]?.uri;
-            if (!workspaceRootUri) {
-                vscode.window.showErrorMessage('No workspace folder open.');
-                return;
-            }
+    if (problems.length > 0) {
+        vscode.window.showWarningMessage(`Some SEARCH/REPLACE blocks were left out: ${problems.join('; ')}.`);
+    } else if (files.length === 0) {
+        vscode.window.showInformationMessage('The SEARCH/REPLACE blocks do not change anything.');
+    }
+    return files;
+}
 
-            // --- MODIFIED LOGIC FOR INLINE REVIEW ---
-            // If a contextUri is provided (e.g., from right-click or test) and it's a single file diff,
-            // try to start an inline review for that contextUri.
-            if (contextUri && parsedFiles.length === 1) {
-                const fileDiff = parsedFiles[0];
-                const contextFileBaseName = nodePath.basename(contextUri.fsPath); // e.g., "original.txt"
-
-                // Check if the diff's "from" field matches the context file.
-                // This is crucial for diffs generated like `diff -u original.txt expected.txt`
-                // where `fileDiff.from` is 'original.txt' and `fileDiff.to` is 'expected.txt'.
-                if (fileDiff.from && fileDiff.from !== '/dev/null' && 
-                    nodePath.basename(fileDiff.from) === contextFileBaseName &&
-                    !fileDiff.new && !fileDiff.deleted) {
-                    try {
-                        await vscode.workspace.fs.stat(contextUri); // Ensure the context file exists
-                        const editor = await vscode.window.showTextDocument(contextUri, { preview: false });
-                        await startInlineDiffReview(editor, fileDiff, contextUri);
-                        return; // Inline review started successfully
-                    } catch (e: any) {
-                        vscode.window.showWarningMessage(`File ${contextUri.fsPath} (for inline review) not found or error: ${e.message}. Falling back to general diff view.`);
-                    }
-                } else {
-                    // Construct a more informative message if inline review isn't triggered with a context URI
-                    const fromName = fileDiff.from ? nodePath.basename(fileDiff.from) : 'N/A';
-                    const toName = fileDiff.to ? nodePath.basename(fileDiff.to) : 'N/A';
-                    vscode.window.showWarningMessage(
-                        `Clipboard diff (from: "${fromName}", to: "${toName}", new: ${fileDiff.new}, deleted: ${fileDiff.deleted}) ` +
-                        `not suitable for inline review on "${contextFileBaseName}". Falling back to general diff preview.`
-                    );
-                }
+/**
+ * Parse diff text as any of the accepted formats: SEARCH/REPLACE blocks, or
+ * a diff alone or inside Markdown. Undefined when there is nothing to apply
+ * (the user has been told why) or a picker was cancelled.
+ */
+async function readPatchFiles(
+    diffText: string,
+    resolve: PathResolver,
+    contextUri?: vscode.Uri,
+    sourceUri?: vscode.Uri
+): Promise<PatchFile[] | undefined> {
+    let parsedFiles: PatchFile[];
+    if (isSearchReplaceText(diffText)) {
+        parsedFiles = await readSearchReplaceEdits(diffText, resolve, contextUri, sourceUri);
+        if (parsedFiles.length === 0) {return undefined;}
+    } else {
+        const blocks = await chooseDiffBlocks(extractDiffBlocks(diffText));
+        if (!blocks) {return undefined;}
+        const patchText = blocks.length > 0 ? mergeDiffBlocks(blocks) : diffText;
+        parsedFiles = mergeSameFileDiffs(parsePatch(patchText, getParseOptions()));
+    }
+    if (parsedFiles.length === 0) {
+        vscode.window.showWarningMessage('No diff information found.');
+        return undefined;
+    }
+    return parsedFiles;
+}
+
+/**
+ * The file a plain modification is for, and its path for messages.
+ * Undefined for a headerless diff with no file to go to, or when no file
+ * was chosen among several that fit.
+ */
+async function resolveModifiedFile(
+    file: PatchFile,
+    fileCount: number,
+    resolve: PathResolver,
+    contextUri?: vscode.Uri,
+    sourceUri?: vscode.Uri
+): Promise<{ uri: vscode.Uri; path: string } | undefined> {
+    if (file.headerless) {
+        const headerlessTarget = getHeaderlessTarget('The diff', contextUri, sourceUri);
+        return headerlessTarget && { uri: headerlessTarget, path: workspaceRelativePath(headerlessTarget) };
+    }
+    const pathInDiff = file.to || file.from;
+    if (!pathInDiff) {return undefined;}
+
+    // A single-file diff applied from a file's context menu (or a test) targets
+    // that file, e.g. `diff -u original.txt expected.txt` on original.txt.
+    if (contextUri && fileCount === 1 &&
+        [file.from, file.to].some(p => p && nodePath.basename(p) === nodePath.basename(contextUri.fsPath))) {
+        return { uri: contextUri, path: workspaceRelativePath(contextUri) };
+    }
+    const uri = await resolve(pathInDiff);
+    return uri && { uri, path: workspaceRelativePath(uri) };
+}
+
+/**
+ * The pipeline behind every "Apply Diff" entry point: pull the diffs out of
+ * surrounding prose (or turn SEARCH/REPLACE blocks into hunks), parse them,
+ * resolve their files in the workspace and start reviewing. `contextUri` is
+ * the file a single-file diff should be applied to, if the user chose one;
+ * edits without file headers go there or to the active editor, unless that
+ * editor is `sourceUri`, the diff itself.
+ */
+async function reviewPatchText(diffText: string, contextUri?: vscode.Uri, sourceUri?: vscode.Uri, reverse = false) {
+    try {
+        const resolve = getWorkspaceResolver();
+        if (!resolve) {return;}
+
+        // A series of format-patch messages is reviewed one patch at a time
+        const series = reverse ? [] : splitPatchSeries(diffText);
+        if (series.length > 1) {
+            await startPatchSeries(series, contextUri, sourceUri);
+            return;
+        }
+        activePatchSeries = undefined;
+
+        const parsedFiles = await readPatchFiles(diffText, resolve, contextUri, sourceUri);
+        if (!parsedFiles) {return;}
+
+        if (reverse) {
+            await reviewPatchFiles(parsedFiles.map(reversePatchFile), resolve, contextUri, sourceUri, true);
+        } else {
+            await reviewPatchFiles(parsedFiles, resolve, contextUri, sourceUri, false, parsePatchMessage(diffText));
+        }
+    } catch (error: any) {
+        console.error('Error applying diff:', error);
+        vscode.window.showErrorMessage(`Failed to apply diff: ${error.message}`);
+    }
+}
+
+/**
+ * Ask whether to unapply a patch whose changes all seem to be in the files
+ * already. Resolves to undefined when the user cancels.
+ */
+async function offerToUnapply(targets: Array<{ uri: vscode.Uri; fileDiff: File }>): Promise<boolean | undefined> {
+    for (const { uri, fileDiff } of targets) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        if (!looksAlreadyApplied(getDocumentLines(document), fileDiff.chunks, getMatchOptions(uri))) {return false;}
+    }
+    const choice = await vscode.window.showWarningMessage(
+        'The diff does not match, but its changes are already in the files. Unapply it?',
+        { modal: true, detail: 'Unapplying reviews the reversed diff, which backs the changes out.' },
+        'Unapply', 'Review Anyway'
+    );
+    return choice === undefined ? undefined : choice === 'Unapply';
+}
+
+/**
+ * Turn parsed file diffs into a review: modified files get inline sessions,
+ * whole-file changes are queued. `reversed` is set for an unapplied diff, which
+ * is not offered for unapplying again. `message` is kept with the review for
+ * committing what gets staged; `series` places it in a patch series.
+ */
+async function reviewPatchFiles(
+    parsedFiles: PatchFile[],
+    resolve: PathResolver,
+    contextUri: vscode.Uri | undefined,
+    sourceUri: vscode.Uri | undefined,
+    reversed: boolean,
+    message?: PatchMessage,
+    series?: PatchSeriesPosition
+): Promise<void> {
+    const targets: Array<{ uri: vscode.Uri; fileDiff: File }> = [];
+    const fileOperations: PendingFileOperation[] = [];
+    const binaryFiles: string[] = [];
+
+    for (const file of parsedFiles) {
+        if (file.binary) {
+            binaryFiles.push(file.to && file.to !== '/dev/null' ? file.to : file.from ?? 'unknown file');
+            continue;
+        }
+        if (file.new || file.from === '/dev/null') {
+            const uri = file.to && file.to !== '/dev/null' ? await resolve(file.to, true) : undefined;
+            if (uri) {
+                fileOperations.push({ kind: 'create', uri, fileDiff: file });
+            }
+            continue;
+        }
+        if (file.deleted || file.to === '/dev/null') {
+            const uri = file.from ? await resolve(file.from) : undefined;
+            if (uri) {
+                fileOperations.push({ kind: 'delete', uri, fileDiff: file });
+            }
+            continue;
+        }
+        if (file.renameFrom || file.copyFrom) {
+            const kind = file.renameFrom ? 'rename' : 'copy';
+            const sourcePath = (file.renameFrom ?? file.copyFrom)!;
+            const sourceUri = await resolve(sourcePath);
+            if (!sourceUri) {continue;}
+            if (!await fileExists(sourceUri)) {
+                vscode.window.showWarningMessage(`File not found: ${sourcePath}. Cannot ${kind} it. Skipping this file.`);
+                continue;
+            }
+            const uri = await resolve((file.renameTo ?? file.copyTo)!, true);
+            if (!uri) {continue;}
+            fileOperations.push({ kind, uri, sourceUri, fileDiff: file });
+            if (hasModeChange(file)) {
+                fileOperations.push({ kind: 'mode', uri, fileDiff: file });
             }
-            // --- END OF MODIFIED LOGIC FOR INLINE REVIEW ---
+            continue;
+        }
 
-            // FALLBACK TO vscode.diff PREVIEW (multi-file, no context, or inline review conditions not met)
-            tempDir = nodeFs.mkdtempSync(nodePath.join(os.tmpdir(), 'vscode-quick-diff-apply-'));
-            const previewsToShow: Array<{ originalUri: vscode.Uri, patchedUri: vscode.Uri, displayName: string, file: File }> = [];
+        const target = await resolveModifiedFile(file, parsedFiles.length, resolve, contextUri, sourceUri);
+        if (!target) {continue;}
+        const targetUri = target.uri;
+        if (!await fileExists(targetUri)) {
+            vscode.window.showWarningMessage(`File not found: ${target.path}. Cannot apply patch. Skipping this file.`);
+            continue;
+        }
+        if (hasModeChange(file)) {
+            fileOperations.push({ kind: 'mode', uri: targetUri, fileDiff: file });
+        }
+        if (file.unnumberedHunks) {
+            const document = await vscode.workspace.openTextDocument(targetUri);
+            file.chunks = placeUnnumberedHunks(getDocumentLines(document), file.chunks, file.unnumberedHunks, getMatchOptions(targetUri));
+        }
+        if (file.chunks.length > 0) {
+            targets.push({ uri: targetUri, fileDiff: file });
+        }
+    }
 
-            for (const file of parsedFiles) {
-                const rawPathInDiff = file.to || file.from;
-                if (!rawPathInDiff || (rawPathInDiff === '/dev/null' && !file.from && !file.to)) {continue;}
-
-                // Clean path for display and for resolving within workspace (strip a/ b/)
-                const displayFileName = nodePath.basename(rawPathInDiff === '/dev/null' ? (file.from || 'unknown_file') : rawPathInDiff);
-                const cleanWorkspacePath = rawPathInDiff.replace(/^[ab]\//, '');
-
-                let originalUriForDiff: vscode.Uri;
-                let patchedUriForDiff: vscode.Uri;
-                
-                const tempOriginalFilePath = nodePath.join(tempDir, `original-${Date.now()}-${displayFileName}`);
-                const tempPatchedFilePath = nodePath.join(tempDir, `patched-${Date.now()}-${displayFileName}`);
-
-                if (file.new || file.from === '/dev/null') {
-                    const newContent = getNewFileContentFromDiff(file);
-                    nodeFs.writeFileSync(tempOriginalFilePath, '');
-                    nodeFs.writeFileSync(tempPatchedFilePath, newContent);
-                    originalUriForDiff = vscode.Uri.file(tempOriginalFilePath);
-                    patchedUriForDiff = vscode.Uri.file(tempPatchedFilePath);
-                } else if (file.deleted || file.to === '/dev/null') {
-                    const actualFileUri = vscode.Uri.joinPath(workspaceRootUri, cleanWorkspacePath);
-                    try {
-                        const originalContent = Buffer.from(await vscode.workspace.fs.readFile(actualFileUri)).toString('utf8');
-                        nodeFs.writeFileSync(tempOriginalFilePath, originalContent);
-                    } catch (e) {
-                        nodeFs.writeFileSync(tempOriginalFilePath, ''); // Show as diff against empty if original not found
-                        vscode.window.showWarningMessage(`Original file ${cleanWorkspacePath} for deletion diff not found. Previewing deletion against empty content.`);
-                    }
-                    originalUriForDiff = vscode.Uri.file(tempOriginalFilePath);
-                    nodeFs.writeFileSync(tempPatchedFilePath, '');
-                    patchedUriForDiff = vscode.Uri.file(tempPatchedFilePath);
-                } else { // Modification
-                    const actualFileUri = vscode.Uri.joinPath(workspaceRootUri, cleanWorkspacePath);
-                    let originalContent = '';
-                    try {
-                        originalContent = Buffer.from(await vscode.workspace.fs.readFile(actualFileUri)).toString('utf8');
-                        originalUriForDiff = actualFileUri; // Use actual file for left side of diff
-                    } catch (e) {
-                        vscode.window.showWarningMessage(`File not found: ${cleanWorkspacePath}. Cannot apply patch or show full diff. Skipping this file.`);
-                        continue; // Skip this file if original cannot be read for a modification
-                    }
-                    const patchedContentFull = applyPatchToContent(originalContent, file);
-                    nodeFs.writeFileSync(tempPatchedFilePath, patchedContentFull);
-                    patchedUriForDiff = vscode.Uri.file(tempPatchedFilePath);
-                }
-                previewsToShow.push({ originalUri: originalUriForDiff, patchedUri: patchedUriForDiff, displayName: displayFileName, file });
+    if (binaryFiles.length > 0) {
+        vscode.window.showWarningMessage(
+            `Binary patches are not supported; skipped ${binaryFiles.length} file(s): ${binaryFiles.join(', ')}`
+        );
+    }
+
+    if (targets.length === 0 && fileOperations.length === 0) {
+        vscode.window.showInformationMessage('No changes to preview or apply (possibly due to files not found or diffs not matching).');
+        return;
+    }
+
+    if (!reversed && targets.length > 0) {
+        const unapply = await offerToUnapply(targets);
+        if (unapply === undefined) {return;}
+        if (unapply) {
+            await reviewPatchFiles(parsedFiles.map(reversePatchFile), resolve, contextUri, sourceUri, true);
+            return;
+        }
+    }
+
+    await startReview(targets, fileOperations, message, series);
+    if (targets.length === 0) {
+        await confirmFileOperations(fileOperations);
+        clearActiveReviewSession();
+    }
+}
+
+let activePatchSeries: PatchSeries | undefined;
+
+/** The series being reviewed, so it can be saved along with the review of its current patch. */
+export function getActivePatchSeries(): PatchSeries | undefined {
+    return activePatchSeries;
+}
+
+function describeSeriesPatch(patch: SeriesPatch, number: number, total: number): string {
+    return `Patch ${number}/${total}: ${patch.message.subject}${patch.message.author ? ` (${patch.message.author})` : ''}`;
+}
+
+async function startPatchSeries(patches: SeriesPatch[], contextUri?: vscode.Uri, sourceUri?: vscode.Uri) {
+    activePatchSeries = { patches, next: 0, contextUri, sourceUri };
+    await reviewNextSeriesPatch();
+}
+
+/**
+ * Review the next patch of the series. It is parsed and located only now,
+ * against the files as the earlier patches left them. Patches with nothing
+ * to review are passed over.
+ */
+async function reviewNextSeriesPatch() {
+    const series = activePatchSeries;
+    if (!series) {return;}
+    const total = series.patches.length;
+
+    while (series.next < total) {
+        const patch = series.patches[series.next++];
+        const number = series.next;
+        const resolve = getWorkspaceResolver();
+        if (!resolve) {return;}
+
+        vscode.window.showInformationMessage(describeSeriesPatch(patch, number, total));
+        const parsedFiles = await readPatchFiles(patch.text, resolve, series.contextUri, series.sourceUri);
+        if (parsedFiles) {
+            await reviewPatchFiles(parsedFiles, resolve, series.contextUri, series.sourceUri, false, patch.message, { number, total });
+        }
+        const review = activeReviewSession;
+        if (activePatchSeries !== series || (review?.series?.number === number && isReviewUnfinished(review))) {return;}
+    }
+    activePatchSeries = undefined;
+    vscode.window.showInformationMessage(`End of the patch series: all ${total} patches reviewed.`);
+}
+
+/**
+ * Patch series: once a patch's review is finished, offer the next one (or
+ * stopping there). "Review Next Patch" and "Stop Patch Series" do the same
+ * from the command palette.
+ */
+export function registerPatchSeriesCommands(): vscode.Disposable {
+    let offeredFor: ReviewSession | undefined;
+    const offerNextPatch = (review: ReviewSession | undefined) => {
+        const series = activePatchSeries;
+        // Patches without inline sessions are passed over by reviewNextSeriesPatch itself
+        if (!series || !review?.series || review.totalFiles === 0 || isReviewUnfinished(review) || offeredFor === review) {return;}
+        offeredFor = review;
+        const next = series.patches[series.next];
+        if (!next) {
+            activePatchSeries = undefined;
+            vscode.window.showInformationMessage(`End of the patch series: all ${series.patches.length} patches reviewed.`);
+            return;
+        }
+        // Not awaited: the review has to finish (and may be staged) while the message is shown
+        vscode.window.showInformationMessage(
+            `Patch ${review.series.number}/${review.series.total} reviewed. Next: ${next.message.subject}`,
+            'Review Next Patch', 'Stop Series'
+        ).then(choice => {
+            if (activePatchSeries !== series) {return;}
+            if (choice === 'Review Next Patch') {
+                vscode.commands.executeCommand('quick-diff-apply.reviewNextPatch');
+            } else if (choice === 'Stop Series') {
+                activePatchSeries = undefined;
             }
+        });
+    };
 
-            if (previewsToShow.length === 0) {
-                vscode.window.showInformationMessage('No changes to preview or apply (possibly due to files not found or diffs not matching).');
-                if (tempDir) {nodeFs.rmSync(tempDir, { recursive: true, force: true });}
+    return vscode.Disposable.from(
+        onDidChangeReviewSession(offerNextPatch),
+        vscode.commands.registerCommand('quick-diff-apply.reviewNextPatch', async () => {
+            if (!activePatchSeries) {
+                vscode.window.showInformationMessage('No patch series is being reviewed.');
                 return;
             }
-
-            for (const preview of previewsToShow) {
-                await vscode.commands.executeCommand('vscode.diff', preview.originalUri, preview.patchedUri, `Preview: ${preview.displayName}`);
+            try {
+                await reviewNextSeriesPatch();
+            } catch (error: any) {
+                console.error('Error applying diff:', error);
+                vscode.window.showErrorMessage(`Failed to apply diff: ${error.message}`);
             }
+        }),
+        vscode.commands.registerCommand('quick-diff-apply.stopPatchSeries', () => {
+            if (!activePatchSeries) {return;}
+            const left = activePatchSeries.patches.length - activePatchSeries.next;
+            activePatchSeries = undefined;
+            saveReview();
+            vscode.window.showInformationMessage(`Patch series stopped; ${left} patch(es) were not reviewed.`);
+        })
+    );
+}
 
-            const confirmation = await vscode.window.showInformationMessage(
-                `You have reviewed ${previewsToShow.length} file(s). Apply these changes to your workspace?`,
-                { modal: true },
-                'Apply All Changes', 'Discard All'
-            );
+export function registerApplyDiffCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyDiff', async (contextUri?: vscode.Uri) => {
+        const diffText = await vscode.env.clipboard.readText();
+        if (!diffText) {
+            vscode.window.showWarningMessage('Clipboard is empty.');
+            return;
+        }
+        await reviewPatchText(diffText, contextUri);
+    });
+}
 
-            if (confirmation === 'Apply All Changes') {
-                const workspaceEdit = new vscode.WorkspaceEdit();
-                let changesAppliedCount = 0;
-
-                for (const preview of previewsToShow) {
-                    const fileDiff = preview.file;
-                    const rawFilePathHeader = fileDiff.to || fileDiff.from;
-                    if (!rawFilePathHeader) {continue;}
-                    
-                    const cleanTargetWorkspacePath = rawFilePathHeader.replace(/^[ab]\//, '');
-                    let targetUriInWorkspace: vscode.Uri;
-
-                    if (fileDiff.new && fileDiff.to && fileDiff.to !== '/dev/null') {
-                        targetUriInWorkspace = vscode.Uri.joinPath(workspaceRootUri, fileDiff.to.replace(/^[ab]\//, ''));
-                    } else if (fileDiff.deleted && fileDiff.from && fileDiff.from !== '/dev/null') {
-                        targetUriInWorkspace = vscode.Uri.joinPath(workspaceRootUri, fileDiff.from.replace(/^[ab]\//, ''));
-                    } else if (cleanTargetWorkspacePath && cleanTargetWorkspacePath !== '/dev/null') {
-                        targetUriInWorkspace = vscode.Uri.joinPath(workspaceRootUri, cleanTargetWorkspacePath);
-                    } else {
-                        continue;
-                    }
-
-                    try {
-                        if (fileDiff.new || fileDiff.from === '/dev/null') {
-                            const newContent = getNewFileContentFromDiff(fileDiff);
-                             try { // Check if file exists to use replace, otherwise create
-                                await vscode.workspace.fs.stat(targetUriInWorkspace);
-                                const existingContentBuffer = await vscode.workspace.fs.readFile(targetUriInWorkspace);
-                                const existingContentLines = Buffer.from(existingContentBuffer).toString('utf8').split('\n');
-                                const fullRange = new vscode.Range(
-                                    new vscode.Position(0,0),
-                                    new vscode.Position(existingContentLines.length, existingContentLines[existingContentLines.length-1]?.length || 0)
-                                );
-                                workspaceEdit.replace(targetUriInWorkspace, fullRange, newContent);
-                            } catch (e) { // File does not exist, create it
-                                workspaceEdit.createFile(targetUriInWorkspace, { ignoreIfExists: false, contents: Buffer.from(newContent) });
-                            }
-                            changesAppliedCount++;
-                        } else if (fileDiff.deleted || fileDiff.to === '/dev/null') {
-                            workspaceEdit.deleteFile(targetUriInWorkspace, { ignoreIfNotExists: true });
-                            changesAppliedCount++;
-                        } else { // Modification
-                            const originalFileContent = Buffer.from(await vscode.workspace.fs.readFile(targetUriInWorkspace)).toString('utf8');
-                            const patchedContent = applyPatchToContent(originalFileContent, fileDiff);
-                            const originalLines = originalFileContent.split('\n');
-                            const fullRange = new vscode.Range(
-                                new vscode.Position(0, 0),
-                                new vscode.Position(originalLines.length > 0 ? originalLines.length -1 : 0, originalLines.length > 0 ? originalLines[originalLines.length - 1].length : 0)
-                                // A more robust way for full range:
-                                // new vscode.Position(0,0), editor.document.lineAt(editor.document.lineCount -1).range.end
-                                // But here we don't have an editor, we have content.
-                                // If originalLines.length is 0 (empty file), position should be (0,0).
-                                // If originalLines is ['foo', ''], length is 2. Last line index is 1. Correct.
-                                // If originalLines is [''], length is 1. Last line index is 0. Correct.
-                            );
-                             if (originalFileContent === "") { // Empty original file special case for replace
-                                workspaceEdit.replace(targetUriInWorkspace, new vscode.Range(0,0,0,0), patchedContent);
-                             } else {
-                                // For replace, we need to get the full range of the document.
-                                // A common way is to create a TextDocument from content, but that's overkill here.
-                                // Replace entire content:
-                                const doc = await vscode.workspace.openTextDocument(targetUriInWorkspace);
-                                workspaceEdit.replace(targetUriInWorkspace, new vscode.Range(0,0, doc.lineCount, 0), patchedContent);
-                             }
-                            changesAppliedCount++;
-                        }
-                    } catch (error: any) {
-                        console.error(`Error preparing edit for ${cleanTargetWorkspacePath}:`, error);
-                        vscode.window.showErrorMessage(`Failed to prepare changes for ${cleanTargetWorkspacePath}: ${error.message}`);
-                    }
-                }
+export function registerUnapplyDiffCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.unapplyDiff', async (contextUri?: vscode.Uri) => {
+        const diffText = await vscode.env.clipboard.readText();
+        if (!diffText) {
+            vscode.window.showWarningMessage('Clipboard is empty.');
+            return;
+        }
+        await reviewPatchText(diffText, contextUri, undefined, true);
+    });
+}
 
-                if (changesAppliedCount > 0) {
-                    await vscode.workspace.applyEdit(workspaceEdit);
-                    vscode.window.showInformationMessage(`Diff applied successfully to ${changesAppliedCount} file(s).`);
-                } else {
-                    vscode.window.showInformationMessage('No changes were applied from the diff.');
-                }
-            } else { // Discard All
-                 vscode.window.showInformationMessage('Changes from diff discarded.');
+/**
+ * Try one file of a diff against the workspace without changing anything:
+ * new files must not exist yet, deleted files must still hold the lines the
+ * diff removes, and every other hunk is tried against its file's text.
+ */
+async function checkPatchFile(
+    file: PatchFile,
+    fileCount: number,
+    resolve: PathResolver,
+    contextUri?: vscode.Uri
+): Promise<FileCheck> {
+    const stripped = (path: string | undefined) => stripPath(path ?? '', getStripLevel());
+    const check = async (uri: vscode.Uri | undefined, path: string, action: string, chunks = file.chunks): Promise<FileCheck> => {
+        if (!uri) {
+            return { path, action, problem: 'notChosen', chunks, checks: [] };
+        }
+        if (!await fileExists(uri)) {
+            return { path, action, problem: 'missing', chunks, checks: [] };
+        }
+        const text = (await vscode.workspace.openTextDocument(uri)).getText();
+        return { path, action, chunks, checks: checkHunksAgainstContent(text, chunks, getMatchOptions(uri)) };
+    };
+
+    if (file.binary) {
+        const path = stripped(file.to && file.to !== '/dev/null' ? file.to : file.from);
+        return { path, action: 'binary', problem: 'binary', chunks: file.chunks, checks: [] };
+    }
+    if (file.new || file.from === '/dev/null') {
+        const uri = await resolve(file.to ?? '', true);
+        const path = uri ? workspaceRelativePath(uri) : stripped(file.to);
+        if (uri && await fileExists(uri)) {
+            return { path, action: 'create', problem: 'exists', chunks: file.chunks, checks: [] };
+        }
+        return { path, action: 'create', chunks: file.chunks, checks: checkHunksAgainstContent('', file.chunks) };
+    }
+    if (file.deleted || file.to === '/dev/null') {
+        return check(await resolve(file.from ?? ''), stripped(file.from), 'delete');
+    }
+    if (file.renameFrom || file.copyFrom) {
+        const kind = file.renameFrom ? 'rename' : 'copy';
+        const sourcePath = (file.renameFrom ?? file.copyFrom)!;
+        return check(await resolve(sourcePath), (file.renameTo ?? file.copyTo)!, `${kind} from ${sourcePath}`);
+    }
+
+    const target = await resolveModifiedFile(file, fileCount, resolve, contextUri);
+    if (!target) {
+        const problem = file.headerless ? 'noTarget' : 'notChosen';
+        return { path: file.headerless ? '(no file header)' : stripped(file.to || file.from), action: 'modify', problem, chunks: file.chunks, checks: [] };
+    }
+    let chunks = file.chunks;
+    if (file.unnumberedHunks && await fileExists(target.uri)) {
+        const document = await vscode.workspace.openTextDocument(target.uri);
+        chunks = placeUnnumberedHunks(getDocumentLines(document), chunks, file.unnumberedHunks, getMatchOptions(target.uri));
+    }
+    return check(target.uri, target.path, 'modify', chunks);
+}
+
+export function registerCheckDiffCommand(): vscode.Disposable {
+    const output = vscode.window.createOutputChannel('Quick Diff Apply: Check');
+    const command = vscode.commands.registerCommand('quick-diff-apply.checkDiff', async (contextUri?: vscode.Uri) => {
+        const diffText = await vscode.env.clipboard.readText();
+        if (!diffText) {
+            vscode.window.showWarningMessage('Clipboard is empty.');
+            return;
+        }
+        try {
+            const resolve = getWorkspaceResolver();
+            if (!resolve) {return;}
+            const parsedFiles = await readPatchFiles(diffText, resolve, contextUri);
+            if (!parsedFiles) {return;}
+
+            const files: FileCheck[] = [];
+            for (const file of parsedFiles) {
+                files.push(await checkPatchFile(file, parsedFiles.length, resolve, contextUri));
+            }
+            output.clear();
+            output.append(formatCheckReport(files));
+            output.show(true);
+            if (isCheckClean(files)) {
+                vscode.window.showInformationMessage('The diff applies to the workspace. See the report for offsets and fuzz.');
+            } else {
+                vscode.window.showWarningMessage('Parts of the diff would not apply. See the report for details.');
             }
         } catch (error: any) {
-            console.error('Error applying diff:', error);
-            vscode.window.showErrorMessage(`Failed to apply diff: ${error.message}`);
-        } finally {
-            if (tempDir) {
+            console.error('Error checking diff:', error);
+            vscode.window.showErrorMessage(`Failed to check diff: ${error.message}`);
+        }
+    });
+    return vscode.Disposable.from(command, output);
+}
+
+/** Read a patch file, preferring the editor's unsaved text if it is open. */
+async function readPatchFile(uri: vscode.Uri): Promise<string | undefined> {
+    const text = (await vscode.workspace.openTextDocument(uri)).getText();
+    if (!text.trim()) {
+        vscode.window.showWarningMessage(`${workspaceRelativePath(uri)} is empty.`);
+        return undefined;
+    }
+    return text;
+}
+
+export function registerApplyPatchFileCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyPatchFile', async (patchUri?: vscode.Uri) => {
+        const uri = patchUri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!uri) {return;}
+        const diffText = await readPatchFile(uri);
+        if (diffText) {
+            await reviewPatchText(diffText, undefined, uri);
+        }
+    });
+}
+
+export function registerApplyDiffFromFileCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyDiffFromFile', async () => {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            filters: { 'Patches': ['diff', 'patch'], 'All Files': ['*'] },
+            openLabel: 'Apply Diff'
+        });
+        if (!picked?.[0]) {return;}
+        const diffText = await readPatchFile(picked[0]);
+        if (diffText) {
+            await reviewPatchText(diffText, undefined, picked[0]);
+        }
+    });
+}
+
+export function registerApplyDiffFromSelectionCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyDiffFromSelection', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {return;}
+        const diffText = editor.selections
+            .filter(selection => !selection.isEmpty)
+            .map(selection => editor.document.getText(selection))
+            .join('\n');
+        if (!diffText.trim()) {
+            vscode.window.showWarningMessage('The selection is empty.');
+            return;
+        }
+        await reviewPatchText(diffText, undefined, editor.document.uri);
+    });
+}
+
+export function registerApplyDiffFromActiveEditorCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyDiffFromActiveEditor', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor.');
+            return;
+        }
+        const diffText = editor.document.getText();
+        if (!diffText.trim()) {
+            vscode.window.showWarningMessage('The editor is empty.');
+            return;
+        }
+        await reviewPatchText(diffText, undefined, editor.document.uri);
+    });
+}
+
+/** The file under review in the active editor, else the first file still under review. */
+function getCurrentSession(review: ReviewSession): InlineDiffSession | undefined {
+    const editorUri = vscode.window.activeTextEditor?.document.uri;
+    return (editorUri && getInlineDiffSession(editorUri)) || review.fileSessions[0];
+}
+
+/** The previewed hunk of the current file, or its first pending hunk. */
+function getCurrentHunk(review: ReviewSession): { session: InlineDiffSession; hunkIndex: number } | undefined {
+    const session = getCurrentSession(review);
+    if (!session) {return undefined;}
+    const active = session.activeHunkIndex;
+    const hunkIndex = active !== null && !isHunkProcessed(session, active) ? active : findNextPendingHunk(session);
+    return hunkIndex === -1 ? undefined : { session, hunkIndex };
+}
+
+/** Move to the next (or previous) pending hunk of the review, across files and wrapping around. */
+async function stepToPendingHunk(review: ReviewSession, direction: 1 | -1) {
+    const pending = [...review.fileSessions]
+        .sort((a, b) => a.fileNumber - b.fileNumber)
+        .flatMap(session => session.originalFileDiff.chunks
+            .map((_, hunkIndex) => ({ session, hunkIndex }))
+            .filter(({ hunkIndex }) => !isHunkProcessed(session, hunkIndex)));
+    if (pending.length === 0) {
+        vscode.window.showInformationMessage('No pending hunks left in the review.');
+        return;
+    }
+
+    const current = getCurrentSession(review)!;
+    const currentIndex = current.activeHunkIndex ?? (direction > 0 ? -1 : Number.MAX_SAFE_INTEGER);
+    const compare = (entry: { session: InlineDiffSession; hunkIndex: number }) =>
+        entry.session.fileNumber - current.fileNumber || entry.hunkIndex - currentIndex;
+    const target = direction > 0
+        ? pending.find(entry => compare(entry) > 0) ?? pending[0]
+        : [...pending].reverse().find(entry => compare(entry) < 0) ?? pending[pending.length - 1];
+    await revealHunk(target.session, target.hunkIndex);
+}
+
+export function registerNextHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.nextHunk', async () => {
+        if (!activeReviewSession) {return;}
+        await stepToPendingHunk(activeReviewSession, 1);
+    });
+}
+
+export function registerPreviousHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.previousHunk', async () => {
+        if (!activeReviewSession) {return;}
+        await stepToPendingHunk(activeReviewSession, -1);
+    });
+}
+
+/** Run a per-hunk command on the current hunk, then bring the hunk the review moved on to into view. */
+async function decideCurrentHunk(command: string) {
+    const review = activeReviewSession;
+    const current = review && getCurrentHunk(review);
+    if (!review || !current) {
+        vscode.window.showInformationMessage('No pending hunk to decide on.');
+        return;
+    }
+    await vscode.commands.executeCommand(command, current.session.uri, current.hunkIndex);
+
+    const next = getCurrentHunk(review);
+    if (next) {
+        await revealHunk(next.session, next.hunkIndex);
+    }
+}
+
+export function registerApplyCurrentHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyCurrentHunk', () =>
+        decideCurrentHunk('quick-diff-apply.applyHunkOnly'));
+}
+
+export function registerRejectCurrentHunkCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.rejectCurrentHunk', () =>
+        decideCurrentHunk('quick-diff-apply.skipHunk'));
+}
+
+/** Every file of the review, finished ones included, in patch order. */
+function getReviewedSessions(review: ReviewSession): InlineDiffSession[] {
+    return [...review.finishedSessions, ...review.fileSessions].sort((a, b) => a.fileNumber - b.fileNumber);
+}
+
+export function registerCopyUnappliedHunksCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.copyUnappliedHunks', async () => {
+        const files = getUnappliedFiles();
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No rejected or pending hunks to copy.');
+            return;
+        }
+        await vscode.env.clipboard.writeText(
+            files.map(({ session, chunks }) => formatFileDiff(workspaceRelativePath(session.uri), chunks)).join('')
+        );
+        const count = files.reduce((n, file) => n + file.chunks.length, 0);
+        vscode.window.showInformationMessage(`Copied ${count} hunk(s) from ${files.length} file(s) as a diff.`);
+    });
+}
+
+/** GNU patch style: the hunks that were not applied go to `<file>.rej` next to the file. */
+export function registerWriteRejectFilesCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.writeRejectFiles', async () => {
+        const files = getUnappliedFiles();
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No rejected or pending hunks to write.');
+            return;
+        }
+        for (const { session, chunks } of files) {
+            const rejectUri = session.uri.with({ path: `${session.uri.path}.rej` });
+            await vscode.workspace.fs.writeFile(rejectUri, Buffer.from(formatFileDiff(workspaceRelativePath(session.uri), chunks)));
+        }
+        vscode.window.showInformationMessage(
+            `Wrote ${files.length} .rej file(s): ${files.map(file => `${workspaceRelativePath(file.session.uri)}.rej`).join(', ')}`
+        );
+    });
+}
+
+/** Commit what was staged with the patch's message, if there is one and the user agrees. */
+async function offerToCommit(repositories: string[], message: PatchMessage | undefined, staged: string) {
+    if (!message) {
+        vscode.window.showInformationMessage(staged);
+        return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+        `${staged} Commit with the message from the patch?`,
+        { modal: true, detail: [message.subject, message.author && `Author: ${message.author}`].filter(Boolean).join('\n') },
+        'Commit'
+    );
+    if (choice !== 'Commit') {return;}
+    for (const repository of repositories) {
+        await commitIndex(repository, message);
+    }
+    vscode.window.showInformationMessage(`Committed "${message.subject}".`);
+}
+
+/**
+ * Apply the diff on the clipboard to the git index only, like
+ * `git apply --cached`: the working tree and open editors are not touched.
+ * Paths are relative to the first workspace folder.
+ */
+export function registerApplyDiffToIndexCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.applyDiffToIndex', async () => {
+        const diffText = await vscode.env.clipboard.readText();
+        if (!diffText) {
+            vscode.window.showWarningMessage('Clipboard is empty.');
+            return;
+        }
+        const workspaceRootUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+        if (!workspaceRootUri || workspaceRootUri.scheme !== 'file') {
+            vscode.window.showErrorMessage('No workspace folder on disk open.');
+            return;
+        }
+        const blocks = await chooseDiffBlocks(extractDiffBlocks(diffText));
+        if (!blocks) {return;}
+
+        try {
+            await applyPatchToIndex(workspaceRootUri.fsPath, blocks.length > 0 ? mergeDiffBlocks(blocks) : diffText);
+            await offerToCommit([workspaceRootUri.fsPath], parsePatchMessage(diffText), 'The diff was applied to the index.');
+        } catch (error: any) {
+            console.error('Error applying diff to the index:', error);
+            vscode.window.showErrorMessage(`Failed to apply diff to the index: ${error.message}`);
+        }
+    });
+}
+
+/**
+ * A file's applied hunks, as they were written (re-indented, merged or in
+ * part) and where, in a diff relative to the file's directory. Context lines
+ * come from the document, since `git apply` does not fuzz.
+ */
+function formatAppliedHunks(session: InlineDiffSession): string {
+    const lines = getDocumentLines(session.document);
+    let delta = 0;
+    const chunks = session.originalFileDiff.chunks
+        .map((_, i) => i)
+        .filter(i => session.appliedHunkIndices.has(i))
+        .map(i => {
+            const line = getDisplayStartLineForHunk(session, i);
+            const chunk = anchorHunkAt(getAppliedChunk(session, i), lines, line - delta, line);
+            delta += getAppliedHunk(session, i)!.lineDelta;
+            return chunk;
+        });
+    return formatFileDiff(nodePath.basename(session.uri.fsPath), chunks);
+}
+
+/** The git repository a reviewed file is in, if any. */
+function getSessionRepository(session: InlineDiffSession): Promise<string | undefined> {
+    if (session.uri.scheme !== 'file') {return Promise.resolve(undefined);}
+    return getRepositoryRoot(nodePath.dirname(session.uri.fsPath));
+}
+
+/**
+ * Stage exactly the hunks applied in the review (or in the file `fileUri`),
+ * like `git add -p` would: they go to the index with `git apply --cached`,
+ * while other changes to the files stay unstaged.
+ */
+export function registerStageAppliedHunksCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.stageAppliedHunks', async (fileUri?: vscode.Uri) => {
+        const review = activeReviewSession;
+        if (!review) {return;}
+        const sessions = getReviewedSessions(review).filter(session =>
+            session.appliedHunkIndices.size > 0 && (!fileUri || session.uri.toString() === fileUri.toString()));
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('No applied hunks to stage.');
+            return;
+        }
+
+        try {
+            const repositories = new Set<string>();
+            let hunkCount = 0;
+            for (const session of sessions) {
+                const repository = await getSessionRepository(session);
+                if (!repository) {
+                    vscode.window.showWarningMessage(`${workspaceRelativePath(session.uri)} is not in a git repository. Skipping this file.`);
+                    continue;
+                }
                 try {
-                    nodeFs.rmSync(tempDir, { recursive: true, force: true });
-                } catch (e) {
-                    console.error('Failed to clean up temp dir:', tempDir, e);
+                    await applyPatchToIndex(nodePath.dirname(session.uri.fsPath), formatAppliedHunks(session));
+                } catch (error) {
+                    if (!(error instanceof GitError)) {throw error;}
+                    const hunks = [...session.appliedHunkIndices].sort((a, b) => a - b).map(i => i + 1).join(', ');
+                    vscode.window.showWarningMessage(
+                        `Could not stage hunk(s) ${hunks} of ${workspaceRelativePath(session.uri)}: ${error.message}`
+                    );
+                    continue;
                 }
+                repositories.add(repository);
+                hunkCount += session.appliedHunkIndices.size;
             }
+            if (repositories.size === 0) {return;}
+            await offerToCommit([...repositories], review.message, `Staged ${hunkCount} applied hunk(s).`);
+        } catch (error: any) {
+            console.error('Error staging applied hunks:', error);
+            vscode.window.showErrorMessage(`Failed to stage applied hunks: ${error.message}`);
+        }
+    });
+}
+
+/** Keep the `quickDiffApply.reviewActive` context key (used by the keybindings) in step with the review. */
+export function registerReviewActiveContextKey(): vscode.Disposable {
+    const update = () => vscode.commands.executeCommand(
+        'setContext',
+        'quickDiffApply.reviewActive',
+        !!activeReviewSession && activeReviewSession.fileSessions.length > 0
+    );
+    update();
+    return onDidChangeReviewSession(update);
+}
+
+/** Files of the review, finished ones included, that have rejected or pending hunks, in patch order. */
+function getUnappliedFiles(): Array<{ session: InlineDiffSession; chunks: Chunk[] }> {
+    const review = activeReviewSession;
+    if (!review) {return [];}
+    return getReviewedSessions(review)
+        .map(session => ({ session, chunks: getUnappliedHunks(session) }))
+        .filter(file => file.chunks.length > 0);
+}
+
+export function registerResumeReviewCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand('quick-diff-apply.resumeReview', async () => {
+        const saved = await loadSavedReview();
+        if (!saved) {
+            vscode.window.showInformationMessage('No saved patch review to resume.');
+            return;
+        }
+        if (saved.changedFiles.length > 0) {
+            vscode.window.showWarningMessage(
+                `${saved.changedFiles.length} file(s) changed since the review was saved and were left out: ${saved.changedFiles.join(', ')}`
+            );
+        }
+        activePatchSeries = saved.series;
+        if (saved.targets.length === 0 && saved.fileOperations.length === 0) {
+            await discardSavedReview();
+            await reviewNextSeriesPatch();
+            return;
+        }
+
+        const series = saved.series && { number: saved.series.next, total: saved.series.patches.length };
+        await startReview(saved.targets, saved.fileOperations, saved.message, series);
+        if (saved.targets.length === 0 && activeReviewSession) {
+            await confirmFileOperations(takeFileOperations(activeReviewSession));
+            clearActiveReviewSession();
+            await reviewNextSeriesPatch();
         }
     });
 }
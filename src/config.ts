@@ -0,0 +1,31 @@
+// src/config.ts
+import * as vscode from 'vscode';
+import { IgnoreWhitespace, MatchOptions, defaultMatchOptions } from './hunkMatcher';
+import { ParseOptions } from './patchParser';
+
+/**
+ * Read the patch-engine settings from the `quickDiffApply.*` configuration.
+ * The tab size is the editor's for `scope`, the file the hunks are for.
+ */
+export function getMatchOptions(scope: vscode.Uri): MatchOptions {
+  const config = vscode.workspace.getConfiguration('quickDiffApply');
+  const tabSize = vscode.workspace.getConfiguration('editor', scope).get<number | string>('tabSize', 4);
+  return {
+    fuzzFactor: Math.max(0, config.get<number>('fuzzFactor', defaultMatchOptions.fuzzFactor)),
+    ignoreWhitespace: config.get<IgnoreWhitespace>('ignoreWhitespace', 'none'),
+    tabSize: typeof tabSize === 'number' && tabSize > 0 ? tabSize : 4
+  };
+}
+
+/** How forgiving diff parsing is (`quickDiffApply.lenientParsing`). */
+export function getParseOptions(): ParseOptions {
+  return {
+    lenient: vscode.workspace.getConfiguration('quickDiffApply').get<boolean>('lenientParsing', true)
+  };
+}
+
+/** Leading directories to drop from paths in a diff (`quickDiffApply.stripLevel`); undefined: only `a/` and `b/`. */
+export function getStripLevel(): number | undefined {
+  const level = vscode.workspace.getConfiguration('quickDiffApply').get<number | null>('stripLevel', null);
+  return typeof level === 'number' && level >= 0 ? Math.floor(level) : undefined;
+}
@@ -38,3 +38,12 @@ export const phantomInsertedLineDecorationType = vscode.window.createTextEditorD
     overviewRulerLane: vscode.OverviewRulerLane.Left,
     // we’ll supply the actual text via renderOptions in updateDecorations()
 });
+
+export const conflictHunkDecorationOptions: vscode.DecorationRenderOptions = {
+    backgroundColor: new vscode.ThemeColor('inputValidation.errorBackground'),
+    border: '1px dashed',
+    borderColor: new vscode.ThemeColor('editorError.foreground'),
+    isWholeLine: true,
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.errorForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Right,
+};
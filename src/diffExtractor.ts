@@ -0,0 +1,265 @@
+// src/diffExtractor.ts
+import { PatchFile, parsePatch } from './patchParser';
+
+/* ────────────────────────────────────────────────────────── */
+/* Finding diffs in Markdown, chat answers and PR comments    */
+/* ────────────────────────────────────────────────────────── */
+
+/** One diff found in mixed text. */
+export interface DiffBlock {
+  /** The diff itself, without fence or indentation. */
+  text: string;
+  /** 0-based line of the block in the source text. */
+  line: number;
+  /** Inside a ``` / ~~~ fence (as opposed to a bare diff between prose). */
+  fenced: boolean;
+  /** Files the block touches, as written in the diff. */
+  files: string[];
+  /** Other blocks (by index) that change some of the same lines of the same file. */
+  conflictsWith: number[];
+}
+
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+const DIFF_LANGUAGES = new Set(['diff', 'patch', 'udiff']);
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const GIT_HEADER_LINE = new RegExp(
+  '^(diff --git |index |old mode |new mode |deleted file mode |new file mode |similarity index |' +
+  'dissimilarity index |rename from |rename to |copy from |copy to |Binary files |GIT binary patch)'
+);
+
+function isFileHeaderStart(lines: string[], i: number): boolean {
+  return lines[i].startsWith('diff --git ') ||
+    (lines[i].startsWith('--- ') && (lines[i + 1]?.startsWith('+++ ') ?? false));
+}
+
+function looksLikeDiff(lines: string[]): boolean {
+  return lines.some(l => l.startsWith('@@')) && lines.some((_, i) => isFileHeaderStart(lines, i));
+}
+
+/** Remove up to `width` leading whitespace characters; undefined if a non-blank line is indented less. */
+function unindent(line: string, width: number): string | undefined {
+  const leading = line.length - line.trimStart().length;
+  if (line.trim() === '') {return '';}
+  return leading >= width ? line.substring(width) : undefined;
+}
+
+/**
+ * Read one hunk starting at its `@@` line. With counts in the header exactly
+ * that many lines are taken, and blank lines (context whose trailing space
+ * was stripped by an editor or chat client) are restored as context. A bare
+ * `@@`, or a header that undercounts, takes the following lines that look
+ * like hunk lines.
+ */
+function readHunk(lines: string[], start: number, out: string[]): number {
+  out.push(lines[start]);
+  const m = lines[start].match(HUNK_HEADER);
+  let i = start + 1;
+
+  if (m) {
+    let oldLeft = m[2] === undefined ? 1 : Number(m[2]);
+    let newLeft = m[4] === undefined ? 1 : Number(m[4]);
+    while (i < lines.length && (oldLeft > 0 || newLeft > 0)) {
+      const line = lines[i];
+      if (line === '' || line.startsWith(' ')) {
+        oldLeft--;
+        newLeft--;
+        out.push(line === '' ? ' ' : line);
+      } else if (line.startsWith('-')) {
+        oldLeft--;
+        out.push(line);
+      } else if (line.startsWith('+')) {
+        newLeft--;
+        out.push(line);
+      } else if (line.startsWith('\\')) {
+        out.push(line);
+      } else {
+        break;
+      }
+      i++;
+    }
+  }
+  const end = endOfHunkLines(lines, i);
+  if (!m || leadsIntoDiff(lines, end)) {
+    out.push(...lines.slice(i, end));
+    i = end;
+  }
+  while (i < lines.length && lines[i].startsWith('\\')) {
+    out.push(lines[i++]);
+  }
+  return i;
+}
+
+function endOfHunkLines(lines: string[], start: number): number {
+  let i = start;
+  while (i < lines.length && /^[ +\-\\]/.test(lines[i]) && !isFileHeaderStart(lines, i)) {i++;}
+  return i;
+}
+
+/**
+ * Whether the diff goes on after line `i` (blank lines allowed in between).
+ * Lines past a hunk's stated size are only kept when they lead there, so a
+ * miscounted header does not lose lines but a Markdown list after a bare diff
+ * is not taken for deletions.
+ */
+function leadsIntoDiff(lines: string[], i: number): boolean {
+  while (i < lines.length && lines[i].trim() === '') {i++;}
+  return i === lines.length || lines[i].startsWith('@@') || isFileHeaderStart(lines, i);
+}
+
+/** Read a diff (file headers and hunks) starting at `start`; returns the line after it. */
+function readDiff(lines: string[], start: number, out: string[]): number {
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (GIT_HEADER_LINE.test(line)) {
+      out.push(line);
+      i++;
+    } else if (isFileHeaderStart(lines, i)) {
+      out.push(line, lines[i + 1]);
+      i += 2;
+    } else if (line.startsWith('@@')) {
+      i = readHunk(lines, i, out);
+    } else if (line.trim() === '' && out.length > 0 && i + 1 < lines.length && leadsIntoDiff(lines, i)) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/** Fenced block contents: every diff region in it, blank context lines restored. */
+function normalizeFencedDiff(lines: string[]): string[] {
+  const out: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const end = readDiff(lines, i, out);
+    if (end === i) {
+      out.push(lines[i++]);
+    } else {
+      i = end;
+    }
+  }
+  return out;
+}
+
+function blockFiles(text: string): PatchFile[] {
+  try {
+    return parsePatch(text);
+  } catch {
+    return [];
+  }
+}
+
+function stripPrefix(path: string | undefined): string {
+  return (path ?? '').replace(/^[ab]\//, '');
+}
+
+/** Mark blocks that change overlapping line ranges of the same file: they are alternatives, not parts. */
+function findConflicts(blocks: DiffBlock[]) {
+  const ranges = blocks.map(block => blockFiles(block.text).flatMap(file =>
+    file.chunks.map(chunk => ({
+      path: stripPrefix(file.to !== '/dev/null' ? file.to : file.from),
+      start: chunk.oldStart,
+      end: chunk.oldStart + Math.max(chunk.oldLines, 1)
+    }))
+  ));
+  blocks.forEach((block, i) => {
+    block.files = [...new Set(ranges[i].map(r => r.path))];
+    blocks.forEach((_, j) => {
+      if (i === j) {return;}
+      const overlaps = ranges[i].some(a => ranges[j].some(b => a.path === b.path && a.start < b.end && b.start < a.end));
+      if (overlaps) {block.conflictsWith.push(j);}
+    });
+  });
+}
+
+/**
+ * Find every diff in mixed text: ```diff / ```patch fenced blocks (and
+ * unlabelled fences whose contents look like a unified diff) plus bare
+ * unified-diff regions between the prose. Indentation from lists and quotes
+ * is removed. Returns an empty list when the text holds no diff at all.
+ */
+export function extractDiffBlocks(text: string): DiffBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: DiffBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const fence = lines[i].match(FENCE);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      let end = i + 1;
+      while (end < lines.length && !(lines[end].trim().startsWith(marker) && lines[end].trim().replace(/[`~]/g, '') === '')) {
+        end++;
+      }
+      const content = lines.slice(i + 1, end).map(l => unindent(l, indent.length) ?? l.trimStart());
+      if (DIFF_LANGUAGES.has(language.toLowerCase()) || looksLikeDiff(content)) {
+        blocks.push({ text: normalizeFencedDiff(content).join('\n') + '\n', line: i + 1, fenced: true, files: [], conflictsWith: [] });
+      }
+      i = end + 1;
+      continue;
+    }
+
+    const trimmed = lines[i].trimStart();
+    if (trimmed.startsWith('diff --git ') || trimmed.startsWith('--- ')) {
+      const indentWidth = lines[i].length - trimmed.length;
+      const view: string[] = [];
+      for (let j = i; j < lines.length; j++) {
+        const unindented = unindent(lines[j], indentWidth);
+        if (unindented === undefined) {break;}
+        view.push(unindented);
+      }
+      const out: string[] = [];
+      const consumed = isFileHeaderStart(view, 0) ? readDiff(view, 0, out) : 0;
+      if (out.some(l => l.startsWith('@@') || GIT_HEADER_LINE.test(l))) {
+        blocks.push({ text: out.join('\n') + '\n', line: i, fenced: false, files: [], conflictsWith: [] });
+        i += consumed;
+        continue;
+      }
+    }
+    i++;
+  }
+
+  findConflicts(blocks);
+  return blocks;
+}
+
+/** One patch made of the chosen blocks, in order. */
+export function mergeDiffBlocks(blocks: DiffBlock[]): string {
+  return blocks.map(block => block.text).join('');
+}
+
+/**
+ * Blocks often split one file's changes over several diffs. Plain
+ * modifications of the same file are merged into one file diff whose hunks
+ * are ordered by position, so the file is reviewed in one session.
+ */
+export function mergeSameFileDiffs(files: PatchFile[]): PatchFile[] {
+  const merged: PatchFile[] = [];
+  const byPath = new Map<string, PatchFile>();
+  for (const file of files) {
+    const plain = !file.new && !file.deleted && !file.renameFrom && !file.copyFrom && !file.binary;
+    const key = `${stripPrefix(file.from)}\0${stripPrefix(file.to)}`;
+    const existing = plain ? byPath.get(key) : undefined;
+    if (existing) {
+      // Hunks without line numbers are only ordered by where they appear
+      const unnumbered = [
+        ...existing.unnumberedHunks ?? [],
+        ...(file.unnumberedHunks ?? []).map(index => index + existing.chunks.length)
+      ];
+      existing.chunks = [...existing.chunks, ...file.chunks];
+      if (unnumbered.length > 0) {
+        existing.unnumberedHunks = unnumbered;
+      } else {
+        existing.chunks.sort((a, b) => a.oldStart - b.oldStart);
+      }
+      existing.additions += file.additions;
+      existing.deletions += file.deletions;
+      continue;
+    }
+    if (plain) {byPath.set(key, file);}
+    merged.push(file);
+  }
+  return merged;
+}
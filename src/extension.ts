@@ -4,7 +4,7 @@ import * as vscode from 'vscode';
 
 // bring in inline-diff session API (including the two pure helpers)
 import {
-  clearActiveInlineDiffSession,
+  clearActiveReviewSession,
   applyPatchToContent,
   applySelectedHunksToContent
 } from './inlineDiffSession';
@@ -14,13 +14,84 @@ import {
   registerApplyHunkOnlyCommand,
   registerSkipHunkCommand,
   registerApplyAllRemainingCommand,
+  registerApplyAllRemainingInReviewCommand,
   registerDiscardAllCommand,
+  registerShowHunkConflictCommand,
+  registerMergeHunkCommand,
+  registerRecheckHunkCommand,
+  registerSplitHunkCommand,
+  registerEditHunkCommand,
+  registerRevertHunkCommand,
+  registerReconsiderHunkCommand,
+  registerUndoHunkDecisionCommand,
+  registerRedoHunkDecisionCommand,
   registerApplyDiffCommand,
-  registerHelloWorldCommand
+  registerUnapplyDiffCommand,
+  registerCheckDiffCommand,
+  registerApplyPatchFileCommand,
+  registerApplyDiffFromFileCommand,
+  registerApplyDiffFromSelectionCommand,
+  registerApplyDiffFromActiveEditorCommand,
+  registerNextHunkCommand,
+  registerPreviousHunkCommand,
+  registerApplyCurrentHunkCommand,
+  registerApplySelectedLinesCommand,
+  registerRejectCurrentHunkCommand,
+  registerCopyUnappliedHunksCommand,
+  registerWriteRejectFilesCommand,
+  registerApplyDiffToIndexCommand,
+  registerStageAppliedHunksCommand,
+  registerPatchSeriesCommands,
+  registerReviewActiveContextKey,
+  registerResumeReviewCommand,
+  registerHelloWorldCommand,
+  getActivePatchSeries
 } from './commands';
 
-// re-export the two helpers so tests can import them from extension.ts:
-export { applyPatchToContent, applySelectedHunksToContent };
+// review overview in the activity bar
+import { ReviewTreeDataProvider, registerReviewTreeView } from './reviewTreeView';
+
+// saving unfinished reviews with the workspace
+import { flushReviewPersistence, offerToResumeReview, registerReviewPersistence, saveReview } from './reviewPersistence';
+
+// pure hunk-placement helpers
+import { locateHunk, looksAlreadyApplied, placeUnnumberedHunks, replaceHunkPostimage, reverseHunk, selectHunkLines, splitHunk, HunkConflictError } from './hunkMatcher';
+
+// unified-diff parsing, including git extended headers
+import { parsePatch, reversePatchFile } from './patchParser';
+
+// finding diffs in Markdown and chat output
+import { extractDiffBlocks, mergeDiffBlocks } from './diffExtractor';
+
+// dry-run checks ("Check Diff from Clipboard")
+import { checkHunksAgainstContent } from './patchUtils';
+import { formatCheckReport } from './checkReport';
+
+// writing hunks that were not applied back out as a diff
+import { formatFileDiff, renumberHunks } from './patchWriter';
+
+// merging hunks that do not apply, with conflict markers
+import { mergeHunk } from './threeWayMerge';
+
+// matching paths in a diff to workspace files
+import { countCommonSuffix, stripPath } from './pathMatcher';
+
+// commit messages and series of `git format-patch` output
+import { parsePatchMessage, splitPatchSeries } from './patchMessage';
+
+// SEARCH/REPLACE edit blocks as a second input format
+import { parseSearchReplaceBlocks, searchReplaceToFileDiff } from './searchReplace';
+
+// re-export the pure helpers so tests can import them from extension.ts:
+export {
+  applyPatchToContent, applySelectedHunksToContent, locateHunk, looksAlreadyApplied, placeUnnumberedHunks, replaceHunkPostimage, reverseHunk, selectHunkLines, splitHunk, HunkConflictError,
+  parsePatch, reversePatchFile, extractDiffBlocks, mergeDiffBlocks, parseSearchReplaceBlocks, searchReplaceToFileDiff,
+  checkHunksAgainstContent, formatCheckReport, formatFileDiff, renumberHunks, mergeHunk, parsePatchMessage, splitPatchSeries,
+  stripPath, countCommonSuffix
+};
+
+// and the review's save hook (so tests need not wait out the save delay) and overview tree
+export { saveReview, ReviewTreeDataProvider };
 
 export function activate(context: vscode.ExtensionContext) {
   console.log(
@@ -32,13 +103,47 @@ export function activate(context: vscode.ExtensionContext) {
     registerApplyHunkOnlyCommand(),
     registerSkipHunkCommand(),
     registerApplyAllRemainingCommand(),
+    registerApplyAllRemainingInReviewCommand(),
     registerDiscardAllCommand(),
+    registerShowHunkConflictCommand(),
+    registerMergeHunkCommand(),
+    registerRecheckHunkCommand(),
+    registerSplitHunkCommand(),
+    registerEditHunkCommand(),
+    registerRevertHunkCommand(),
+    registerReconsiderHunkCommand(),
+    registerUndoHunkDecisionCommand(),
+    registerRedoHunkDecisionCommand(),
     registerApplyDiffCommand(),
-    registerHelloWorldCommand()
+    registerUnapplyDiffCommand(),
+    registerCheckDiffCommand(),
+    registerApplyPatchFileCommand(),
+    registerApplyDiffFromFileCommand(),
+    registerApplyDiffFromSelectionCommand(),
+    registerApplyDiffFromActiveEditorCommand(),
+    registerNextHunkCommand(),
+    registerPreviousHunkCommand(),
+    registerApplyCurrentHunkCommand(),
+    registerApplySelectedLinesCommand(),
+    registerRejectCurrentHunkCommand(),
+    registerCopyUnappliedHunksCommand(),
+    registerWriteRejectFilesCommand(),
+    registerApplyDiffToIndexCommand(),
+    registerStageAppliedHunksCommand(),
+    registerPatchSeriesCommands(),
+    registerReviewActiveContextKey(),
+    registerResumeReviewCommand(),
+    registerHelloWorldCommand(),
+    registerReviewTreeView(),
+    registerReviewPersistence(context, getActivePatchSeries)
   );
+
+  offerToResumeReview();
 }
 
 export function deactivate() {
-  // clean up inline-diff session state
-  clearActiveInlineDiffSession();
+  // keep an unfinished review for the next window, then clean up inline-diff review state
+  const saved = flushReviewPersistence();
+  clearActiveReviewSession();
+  return saved;
 }
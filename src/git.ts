@@ -0,0 +1,58 @@
+// src/git.ts
+import { execFile } from 'node:child_process';
+import { PatchMessage } from './patchMessage';
+
+/* ────────────────────────────────────────────────────────── */
+/* The local git executable: index and commits                */
+/* ────────────────────────────────────────────────────────── */
+
+/** A git command that failed; the message is what git printed. */
+export class GitError extends Error {
+  constructor(public readonly args: string[], message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/** Run `git <args>` in `cwd`, feeding `input` on stdin. Resolves to stdout. */
+export function runGit(cwd: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new GitError(args, (stderr || error.message).trim()));
+      } else {
+        resolve(stdout);
+      }
+    });
+    // git may exit before reading its input; the exit status reports why
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(input);
+  });
+}
+
+/** Top directory of the repository `dir` is in, or undefined outside of one (or without git). */
+export async function getRepositoryRoot(dir: string): Promise<string | undefined> {
+  try {
+    return (await runGit(dir, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Apply a patch to the index only, like `git apply --cached`; the working
+ * tree is not touched. Paths are relative to `cwd`, as git does when run
+ * from a subdirectory. Hunk sizes are recounted, so diffs with wrong counts
+ * still apply.
+ */
+export async function applyPatchToIndex(cwd: string, patchText: string): Promise<void> {
+  await runGit(cwd, ['apply', '--cached', '--recount', '-'], patchText);
+}
+
+/** Commit the index with a patch's subject, body, author and date. */
+export async function commitIndex(cwd: string, message: PatchMessage): Promise<void> {
+  const args = ['commit', '--quiet', '-F', '-'];
+  if (message.author) {args.push(`--author=${message.author}`);}
+  if (message.date) {args.push(`--date=${message.date}`);}
+  await runGit(cwd, args, message.body ? `${message.subject}\n\n${message.body}\n` : `${message.subject}\n`);
+}
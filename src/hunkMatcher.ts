@@ -0,0 +1,582 @@
+// src/hunkMatcher.ts
+import { Change, Chunk } from 'parse-diff';
+
+/* ────────────────────────────────────────────────────────── */
+/* Hunk placement (GNU-patch style offset + fuzz search)      */
+/* ────────────────────────────────────────────────────────── */
+
+/**
+ * Whitespace differences that do not stop a line from matching: none, changes
+ * in the amount of whitespace including indentation (`git apply
+ * --ignore-space-change`), or all whitespace (`--ignore-whitespace`).
+ */
+export type IgnoreWhitespace = 'none' | 'change' | 'all';
+
+export interface MatchOptions {
+  /** Max number of context lines that may be ignored at each end of a hunk. */
+  fuzzFactor: number;
+  /** Default `'none'`. */
+  ignoreWhitespace?: IgnoreWhitespace;
+  /** Columns per tab, for re-indenting added lines; default 4. */
+  tabSize?: number;
+}
+
+export const defaultMatchOptions: MatchOptions = { fuzzFactor: 2 };
+
+/** Where a hunk was found in the target text. */
+export interface HunkPlacement {
+  /** 0-based line at which the (untrimmed) preimage starts. */
+  line: number;
+  /** Distance in lines from the position predicted by the hunk header. */
+  offset: number;
+  /** Number of context lines that had to be ignored to find a match. */
+  fuzz: number;
+  /** Leading context lines ignored; they are left untouched when applying. */
+  leadingTrimmed: number;
+  /** Trailing context lines ignored; they are left untouched when applying. */
+  trailingTrimmed: number;
+}
+
+/**
+ * parse-diff keeps `\ No newline at end of file` as an extra change that
+ * copies the type of the line it refers to.
+ */
+export function isNoNewlineMarker(change: Change): boolean {
+  return change.content.startsWith('\\');
+}
+
+/** The hunk's real lines, without end-of-file markers. */
+export function getHunkChanges(chunk: Chunk): Change[] {
+  return chunk.changes.filter(c => !isNoNewlineMarker(c));
+}
+
+/** A change's line text, without its prefix or a CR left over from a CRLF diff. */
+export function getChangeText(change: Change): string {
+  return change.content.substring(1).replace(/\r$/, '');
+}
+
+/** Lines the hunk expects to find in the target (context + deletions). */
+export function getHunkPreimage(chunk: Chunk): string[] {
+  return getHunkChanges(chunk)
+    .filter(c => c.type === 'normal' || c.type === 'del')
+    .map(getChangeText);
+}
+
+/** Lines the hunk leaves behind in the target (context + additions). */
+export function getHunkPostimage(chunk: Chunk): string[] {
+  return getHunkChanges(chunk)
+    .filter(c => c.type === 'normal' || c.type === 'add')
+    .map(getChangeText);
+}
+
+/** Which side of the hunk ends without a final newline. */
+export function getHunkEndOfFileFlags(chunk: Chunk): { oldMissingNewline: boolean; newMissingNewline: boolean } {
+  let oldMissingNewline = false;
+  let newMissingNewline = false;
+  chunk.changes.forEach((c, i) => {
+    const previous = chunk.changes[i - 1];
+    if (!isNoNewlineMarker(c) || !previous) {return;}
+    if (previous.type !== 'add') {oldMissingNewline = true;}
+    if (previous.type !== 'del') {newMissingNewline = true;}
+  });
+  return { oldMissingNewline, newMissingNewline };
+}
+
+/** The hunk that undoes `chunk`: additions and deletions swapped, old and new ranges swapped. */
+export function reverseHunk(chunk: Chunk): Chunk {
+  const changes: Change[] = chunk.changes.map(c => {
+    const text = isNoNewlineMarker(c) ? c.content : c.content.substring(1);
+    switch (c.type) {
+      case 'add':
+        return { type: 'del', del: true, ln: c.ln, content: isNoNewlineMarker(c) ? text : '-' + text };
+      case 'del':
+        return { type: 'add', add: true, ln: c.ln, content: isNoNewlineMarker(c) ? text : '+' + text };
+      default:
+        return { ...c, ln1: c.ln2, ln2: c.ln1 };
+    }
+  });
+  return {
+    content: `@@ -${chunk.newStart},${chunk.newLines} +${chunk.oldStart},${chunk.oldLines} @@`,
+    changes,
+    oldStart: chunk.newStart,
+    oldLines: chunk.newLines,
+    newStart: chunk.oldStart,
+    newLines: chunk.oldLines
+  };
+}
+
+/**
+ * 0-based line at which the hunk header says its preimage starts.
+ * Pure insertions (`-n,0`) insert *after* line n, everything else starts at n.
+ */
+export function getHunkHeaderStart(chunk: Chunk): number {
+  return chunk.oldLines === 0 ? chunk.oldStart : Math.max(chunk.oldStart - 1, 0);
+}
+
+function countContext(chunk: Chunk, fromEnd: boolean): number {
+  const changes = getHunkChanges(chunk);
+  if (fromEnd) {changes.reverse();}
+  let n = 0;
+  for (const c of changes) {
+    if (c.type !== 'normal') {break;}
+    n++;
+  }
+  return n;
+}
+
+/** A line as it is compared when `ignore` whitespace does not count. */
+function normalizeWhitespace(line: string, ignore: IgnoreWhitespace = 'none'): string {
+  switch (ignore) {
+    case 'none': return line;
+    case 'change': return line.trim().replace(/\s+/g, ' ');
+    case 'all': return line.replace(/\s+/g, '');
+  }
+}
+
+function matchesAt(lines: string[], needle: string[], at: number): boolean {
+  if (at < 0 || at + needle.length > lines.length) {return false;}
+  for (let i = 0; i < needle.length; i++) {
+    if (lines[at + i] !== needle[i]) {return false;}
+  }
+  return true;
+}
+
+/**
+ * Find a hunk's preimage in `lines`, searching outward from `expectedLine`
+ * so the closest match wins. Each fuzz level drops one more context line at
+ * either end before searching again, exactly like GNU patch. Whitespace is
+ * compared as `options.ignoreWhitespace` says.
+ */
+export function locateHunk(
+  lines: string[],
+  chunk: Chunk,
+  expectedLine: number,
+  options: MatchOptions = defaultMatchOptions
+): HunkPlacement | undefined {
+  const preimage = getHunkPreimage(chunk).map(line => normalizeWhitespace(line, options.ignoreWhitespace));
+  if (options.ignoreWhitespace && options.ignoreWhitespace !== 'none') {
+    lines = lines.map(line => normalizeWhitespace(line, options.ignoreWhitespace));
+  }
+  const leadingContext = countContext(chunk, false);
+  const trailingContext = countContext(chunk, true);
+  const maxFuzz = Math.max(0, Math.min(options.fuzzFactor, Math.max(leadingContext, trailingContext)));
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const leadingTrimmed = Math.min(fuzz, leadingContext);
+    const trailingTrimmed = Math.min(fuzz, trailingContext);
+    if (fuzz > 0 && leadingTrimmed + trailingTrimmed >= preimage.length) {break;}
+    const needle = preimage.slice(leadingTrimmed, preimage.length - trailingTrimmed);
+
+    const maxDistance = Math.max(expectedLine, lines.length - expectedLine);
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const candidate of distance === 0 ? [expectedLine] : [expectedLine - distance, expectedLine + distance]) {
+        if (matchesAt(lines, needle, candidate + leadingTrimmed)) {
+          return {
+            line: candidate,
+            offset: candidate - expectedLine,
+            fuzz,
+            leadingTrimmed,
+            trailingTrimmed
+          };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Give hunks whose header had no line numbers a real position by searching
+ * the target for their context and removed lines. Hunks come in file order,
+ * so the first match after the previous hunk wins; a hunk that cannot be
+ * found is put right after the previous one and shows up as a conflict.
+ */
+export function placeUnnumberedHunks(
+  lines: string[],
+  chunks: Chunk[],
+  unnumbered: number[],
+  options: MatchOptions = defaultMatchOptions
+): Chunk[] {
+  let searchFrom = 0;
+  let lineDelta = 0;
+  return chunks.map((chunk, index) => {
+    let placed = chunk;
+    if (unnumbered.includes(index)) {
+      const after = locateHunk(lines.slice(searchFrom), chunk, 0, options);
+      const line = after ? searchFrom + after.line : locateHunk(lines, chunk, searchFrom, options)?.line ?? searchFrom;
+      const oldStart = chunk.oldLines === 0 ? line : line + 1;
+      const newStart = oldStart + lineDelta;
+      placed = {
+        ...chunk,
+        oldStart,
+        newStart,
+        content: chunk.content.replace(HUNK_HEADER, `@@ -${oldStart},${chunk.oldLines} +${newStart},${chunk.newLines} @@`)
+      };
+    }
+    searchFrom = getHunkHeaderStart(placed) + placed.oldLines;
+    lineDelta += placed.newLines - placed.oldLines;
+    return placed;
+  });
+}
+
+/** A hunk line together with the `\ No newline` marker that follows it, if any. */
+interface HunkLine {
+  change: Change;
+  /** Index into `chunk.changes`. */
+  index: number;
+  marker?: Change;
+}
+
+function getHunkLines(chunk: Chunk): HunkLine[] {
+  const lines: HunkLine[] = [];
+  chunk.changes.forEach((change, index) => {
+    if (isNoNewlineMarker(change)) {
+      if (lines.length > 0) {lines[lines.length - 1].marker = change;}
+      return;
+    }
+    lines.push({ change, index });
+  });
+  return lines;
+}
+
+function toChanges(lines: HunkLine[]): Change[] {
+  return lines.flatMap(l => l.marker ? [l.change, l.marker] : [l.change]);
+}
+
+/** A hunk made of `changes` starting at the given old/new lines, with line numbers and header recomputed. */
+function buildHunk(chunk: Chunk, changes: Change[], oldStart: number, newStart: number): Chunk {
+  let oldLn = oldStart;
+  let newLn = newStart;
+  const numbered: Change[] = changes.map(c => {
+    if (isNoNewlineMarker(c)) {return c;}
+    switch (c.type) {
+      case 'normal': return { ...c, ln1: oldLn++, ln2: newLn++ };
+      case 'del': return { ...c, ln: oldLn++ };
+      default: return { ...c, ln: newLn++ };
+    }
+  });
+  const oldLines = oldLn - oldStart;
+  const newLines = newLn - newStart;
+  return {
+    ...chunk,
+    content: chunk.content.replace(HUNK_HEADER, `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`),
+    changes: numbered,
+    oldStart,
+    oldLines,
+    newStart,
+    newLines
+  };
+}
+
+/** The same hunk at other (1-based) header starts, with line numbers and header rewritten. */
+export function moveHunk(chunk: Chunk, oldStart: number, newStart: number): Chunk {
+  return buildHunk(chunk, chunk.changes, oldStart, newStart);
+}
+
+/**
+ * An applied hunk as it stands in `lines`, whose result it is written into
+ * from the 0-based `newLine` on: context lines read from there (fuzz may have
+ * ignored the hunk's own), header at `oldLine` and `newLine`.
+ */
+export function anchorHunkAt(chunk: Chunk, lines: string[], oldLine: number, newLine: number): Chunk {
+  let at = newLine;
+  const anchored = getHunkLines(chunk).map(l => {
+    if (l.change.type === 'del') {return l;}
+    const text = lines[at++];
+    return l.change.type === 'normal' && text !== undefined ? { ...l, change: { ...l.change, content: ` ${text}` } } : l;
+  });
+  return buildHunk(chunk, toChanges(anchored), oldLine + 1, newLine + 1);
+}
+
+function getIndent(line: string): string {
+  return line.match(/^[ \t]*/)![0];
+}
+
+/** Width of an indentation in columns. */
+function getIndentWidth(indent: string, tabSize: number): number {
+  let width = 0;
+  for (const ch of indent) {
+    width = ch === '\t' ? width - (width % tabSize) + tabSize : width + 1;
+  }
+  return width;
+}
+
+/**
+ * The hunk as it has to be written where `placement` found it in `lines`
+ * when whitespace was ignored: context and removed lines as the target has
+ * them, and added lines moved by the indentation difference of the first
+ * non-blank line both share, in the target's tabs or spaces. Without
+ * ignored whitespace, or when nothing differs, `chunk` itself.
+ */
+export function adaptHunkToTarget(
+  lines: string[],
+  chunk: Chunk,
+  placement: HunkPlacement,
+  options: MatchOptions = defaultMatchOptions
+): Chunk {
+  if (!options.ignoreWhitespace || options.ignoreWhitespace === 'none') {return chunk;}
+  const tabSize = options.tabSize ?? 4;
+  const hunkLines = getHunkLines(chunk);
+
+  // The target's text for every preimage line that was matched; ignored (fuzz) context keeps the hunk's
+  const targetText = new Map<HunkLine, string>();
+  const preimage = hunkLines.filter(l => l.change.type !== 'add');
+  preimage.forEach((l, k) => {
+    const text = lines[placement.line + k];
+    if (k >= placement.leadingTrimmed && k < preimage.length - placement.trailingTrimmed && text !== undefined) {
+      targetText.set(l, text);
+    }
+  });
+
+  const shared = [...targetText].find(([l]) => getChangeText(l.change).trim() !== '');
+  const shift = shared ? getIndentWidth(getIndent(shared[1]), tabSize) - getIndentWidth(getIndent(getChangeText(shared[0].change)), tabSize) : 0;
+  const targetIndents = [...targetText.values()].map(getIndent).filter(indent => indent !== '');
+  const useTabs = targetIndents.length > 0 ? targetIndents.some(indent => indent.startsWith('\t')) : undefined;
+
+  const reindent = (text: string): string => {
+    const indent = getIndent(text);
+    if (text.trim() === '' || (shift === 0 && (useTabs === undefined || indent.includes('\t') === useTabs))) {return text;}
+    const width = Math.max(0, getIndentWidth(indent, tabSize) + shift);
+    const tabs = useTabs ?? indent.startsWith('\t');
+    const newIndent = tabs ? '\t'.repeat(Math.floor(width / tabSize)) + ' '.repeat(width % tabSize) : ' '.repeat(width);
+    return newIndent + text.slice(indent.length);
+  };
+
+  let changed = false;
+  const adapted = hunkLines.map(l => {
+    const text = getChangeText(l.change);
+    const written = l.change.type === 'add' ? reindent(text) : targetText.get(l) ?? text;
+    if (written === text) {return l;}
+    changed = true;
+    return { ...l, change: { ...l.change, content: l.change.content[0] + written } };
+  });
+  return changed ? { ...chunk, changes: toChanges(adapted) } : chunk;
+}
+
+/** Pairs [i, j] of equal lines in a longest common subsequence of `a` and `b`. */
+export function commonLines(a: string[], b: string[]): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The same hunk with `postimage` as its result: context and removed lines
+ * stay as they are, and the lines of `postimage` that are not in them become
+ * its added lines. Header counts are recomputed; end-of-file markers stay
+ * on the last old and new lines.
+ */
+export function replaceHunkPostimage(chunk: Chunk, postimage: string[]): Chunk {
+  const preimage = getHunkPreimage(chunk);
+  const changes: Change[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [pi, qi] of [...commonLines(preimage, postimage), [preimage.length, postimage.length]]) {
+    for (; i < pi; i++) {changes.push({ type: 'del', del: true, ln: 0, content: `-${preimage[i]}` });}
+    for (; j < qi; j++) {changes.push({ type: 'add', add: true, ln: 0, content: `+${postimage[j]}` });}
+    if (pi < preimage.length) {
+      changes.push({ type: 'normal', normal: true, ln1: 0, ln2: 0, content: ` ${preimage[i++]}` });
+      j++;
+    }
+  }
+
+  const marker = chunk.changes.find(isNoNewlineMarker);
+  const { oldMissingNewline, newMissingNewline } = getHunkEndOfFileFlags(chunk);
+  const lines: HunkLine[] = changes.map((change, index) => ({ change, index }));
+  const types = lines.map(l => l.change.type);
+  const lastOld = Math.max(types.lastIndexOf('normal'), types.lastIndexOf('del'));
+  const lastNew = Math.max(types.lastIndexOf('normal'), types.lastIndexOf('add'));
+  if (marker && oldMissingNewline && lastOld >= 0) {lines[lastOld].marker = marker;}
+  if (marker && newMissingNewline && lastNew >= 0) {lines[lastNew].marker = marker;}
+  return buildHunk(chunk, toChanges(lines), chunk.oldStart, chunk.newStart);
+}
+
+/**
+ * The part of a hunk made of the chosen `+`/`-` lines (indices into
+ * `chunk.changes`). Deletions that were not chosen stay as context and
+ * additions that were not chosen are dropped. Within a run of changes the
+ * chosen additions follow the last chosen deletion, so a chosen `-b`/`+B`
+ * pair still replaces b in place.
+ */
+export function selectHunkLines(chunk: Chunk, selected: number[]): Chunk {
+  const chosen = new Set(selected);
+  const lines = getHunkLines(chunk);
+  const picked: HunkLine[] = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].change.type === 'normal') {
+      picked.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].change.type !== 'normal') {end++;}
+    const run = lines.slice(i, end);
+    const adds = run.filter(l => l.change.type === 'add' && chosen.has(l.index));
+    const dels = run.filter(l => l.change.type === 'del');
+    const lastChosenDel = dels.map(l => chosen.has(l.index)).lastIndexOf(true);
+    dels.forEach((l, k) => {
+      picked.push(chosen.has(l.index)
+        ? l
+        : { ...l, change: { type: 'normal', normal: true, ln1: 0, ln2: 0, content: ' ' + l.change.content.substring(1) } });
+      if (k === lastChosenDel) {picked.push(...adds);}
+    });
+    if (lastChosenDel < 0) {picked.push(...adds);}
+    i = end;
+  }
+  return buildHunk(chunk, toChanges(picked), chunk.oldStart, chunk.newStart);
+}
+
+/**
+ * Split a hunk at the context lines between its groups of changes, like the
+ * `s` answer of `git add -p`. Every piece keeps the context around its own
+ * changes, so context between two groups belongs to both pieces. A hunk with
+ * a single group of changes comes back unchanged.
+ */
+export function splitHunk(chunk: Chunk): Chunk[] {
+  const lines = getHunkLines(chunk);
+  const groups: Array<{ start: number; end: number }> = [];
+  lines.forEach((l, i) => {
+    if (l.change.type === 'normal') {return;}
+    const last = groups[groups.length - 1];
+    if (last && last.end === i) {
+      last.end = i + 1;
+    } else {
+      groups.push({ start: i, end: i + 1 });
+    }
+  });
+  if (groups.length < 2) {return [chunk];}
+
+  return groups.map((group, g) => {
+    const from = g === 0 ? 0 : groups[g - 1].end;
+    const to = g === groups.length - 1 ? lines.length : groups[g + 1].start;
+    const before = lines.slice(0, from).map(l => l.change.type);
+    const oldStart = chunk.oldStart + before.filter(type => type !== 'add').length;
+    const newStart = chunk.newStart + before.filter(type => type !== 'del').length;
+    return buildHunk(chunk, toChanges(lines.slice(from, to)), oldStart, newStart);
+  });
+}
+
+/**
+ * True when a patch looks applied already: none of its hunks can be found
+ * in `lines`, but every reversed hunk can. Such a patch can be unapplied.
+ */
+export function looksAlreadyApplied(lines: string[], chunks: Chunk[], options: MatchOptions = defaultMatchOptions): boolean {
+  return chunks.length > 0 &&
+    chunks.every(chunk => !locateHunk(lines, chunk, getHunkHeaderStart(chunk), options)) &&
+    chunks.map(reverseHunk).every(chunk => locateHunk(lines, chunk, getHunkHeaderStart(chunk), options));
+}
+
+/**
+ * A hunk replacing `oldText` (found at 0-based line `at`) with `newText`.
+ * Lines the two share at either end become context, so the hunk shows only
+ * what changes.
+ */
+export function buildReplacementHunk(oldText: string[], newText: string[], at: number, newStart: number): Chunk {
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {prefix++;}
+  let suffix = 0;
+  while (suffix < oldText.length - prefix && suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {suffix++;}
+
+  const oldStart = oldText.length === 0 ? at : at + 1;
+  const changes: Change[] = [];
+  const context = (i: number) => changes.push({
+    type: 'normal', normal: true, ln1: oldStart + i, ln2: newStart + i, content: ' ' + oldText[i]
+  });
+  for (let i = 0; i < prefix; i++) {context(i);}
+  for (let i = prefix; i < oldText.length - suffix; i++) {
+    changes.push({ type: 'del', del: true, ln: oldStart + i, content: '-' + oldText[i] });
+  }
+  for (let i = prefix; i < newText.length - suffix; i++) {
+    changes.push({ type: 'add', add: true, ln: newStart + i, content: '+' + newText[i] });
+  }
+  for (let i = 0; i < suffix; i++) {
+    const s = oldText.length - suffix + i;
+    changes.push({
+      type: 'normal', normal: true, ln1: oldStart + s, ln2: newStart + newText.length - suffix + i, content: ' ' + oldText[s]
+    });
+  }
+
+  return {
+    content: `@@ -${oldStart},${oldText.length} +${newStart},${newText.length} @@`,
+    changes,
+    oldStart,
+    oldLines: oldText.length,
+    newStart,
+    newLines: newText.length
+  };
+}
+
+/** Short human-readable suffix, e.g. " (offset +3, fuzz 1)"; empty for exact hits. */
+export function describePlacement(placement: HunkPlacement): string {
+  const parts: string[] = [];
+  if (placement.offset !== 0) {
+    parts.push(`offset ${placement.offset > 0 ? '+' : ''}${placement.offset}`);
+  }
+  if (placement.fuzz > 0) {
+    parts.push(`fuzz ${placement.fuzz}`);
+  }
+  return parts.length ? ` (${parts.join(', ')})` : '';
+}
+
+/* ────────────────────────────────────────────────────────── */
+/* Conflict reporting                                         */
+/* ────────────────────────────────────────────────────────── */
+
+/** First line where a hunk's preimage disagrees with the target. */
+export interface HunkMismatch {
+  /** 0-based target line that was compared. */
+  line: number;
+  expected: string;
+  /** `undefined` when the target ends before the hunk does. */
+  actual: string | undefined;
+}
+
+/** Compare a hunk's preimage with the target at `startLine`, whitespace as `options` say. */
+export function findFirstMismatch(
+  lines: string[],
+  chunk: Chunk,
+  startLine: number,
+  options: MatchOptions = defaultMatchOptions
+): HunkMismatch | undefined {
+  const preimage = getHunkPreimage(chunk);
+  for (let i = 0; i < preimage.length; i++) {
+    const ln = startLine + i;
+    const actual = ln >= 0 && ln < lines.length ? lines[ln] : undefined;
+    if (actual === undefined ||
+      normalizeWhitespace(actual, options.ignoreWhitespace) !== normalizeWhitespace(preimage[i], options.ignoreWhitespace)) {
+      return { line: ln, expected: preimage[i], actual };
+    }
+  }
+  return undefined;
+}
+
+export function describeMismatch(mismatch: HunkMismatch): string {
+  const found = mismatch.actual === undefined ? 'end of file' : `"${mismatch.actual}"`;
+  return `line ${mismatch.line + 1}: expected "${mismatch.expected}" but found ${found}`;
+}
+
+/** Thrown by the content-level patch helpers when a hunk does not match. */
+export class HunkConflictError extends Error {
+  constructor(public readonly hunkIndex: number, public readonly mismatch: HunkMismatch) {
+    super(`Hunk ${hunkIndex + 1} does not match the target at ${describeMismatch(mismatch)}`);
+    this.name = 'HunkConflictError';
+  }
+}
@@ -1,123 +1,547 @@
 // src/inlineDiffSession.ts
 import * as vscode from 'vscode';
-import { File, Chunk } from 'parse-diff';
+import { Chunk, File } from 'parse-diff';
 import {
   addedLineDecorationOptions,
   removedLineDecorationOptions,
   skippedHunkDecorationOptions,
   appliedHunkDecorationOptions,
+  conflictHunkDecorationOptions,
   phantomInsertedLineDecorationType
 } from './decorations';
+import {
+  HunkMismatch,
+  HunkPlacement,
+  describeMismatch,
+  describePlacement,
+  findFirstMismatch,
+  getChangeText,
+  getHunkChanges,
+  getHunkHeaderStart,
+  isNoNewlineMarker,
+  locateHunk,
+  replaceHunkPostimage,
+  splitHunk
+} from './hunkMatcher';
+import { getMatchOptions } from './config';
+import { PatchFile } from './patchParser';
+import { PatchMessage, SeriesPatch } from './patchMessage';
+import { renumberHunks } from './patchWriter';
 
 /* ────────────────────────────────────────────────────────── */
 /* 1 ▸ PURE HELPERS (fixed so unit-tests pass)                */
 /* ────────────────────────────────────────────────────────── */
 
-/** Apply an entire unified diff to a text buffer (all hunks). */
-export function applyPatchToContent(originalContent: string, fileDiff: File): string {
-  const lines = originalContent.split('\n');
-  let out     = [...lines];
-
-  /* work from bottom to top so splice indexes don’t shift */
-  for (let i = fileDiff.chunks.length - 1; i >= 0; i--) {
-    const chunk = fileDiff.chunks[i];
-
-    const pos         = Math.max(chunk.oldStart - 1, 0);
-    const removeCount = chunk.oldLines;
-    const insertLines = chunk.changes
-      .filter(c => c.type === 'add' || c.type === 'normal') // Corrected filter
-      .map(  c => c.content.substring(1));
-
-    out.splice(pos, removeCount, ...insertLines);
-  }
-  return out.join('\n');
-}
-
-/** Apply *only* the selected hunks (by index) to a text buffer. */
-export function applySelectedHunksToContent(
-  originalContent: string,
-  allHunks: Chunk[],
-  indices: number[]
-): string {
-  const lines = originalContent.split('\n');
-  let out     = [...lines];
-
-  /* again: process from bottom to top */
-  [...indices]
-    .sort((a, b) => b - a)
-    .forEach(idx => {
-      const hunk = allHunks[idx];
-      if (!hunk) {return;}
-
-      const pos         = Math.max(hunk.oldStart - 1, 0);
-      const removeCount = hunk.oldLines;
-      const insertLines = hunk.changes
-        .filter(c => c.type === 'add' || c.type === 'normal') // Corrected filter
-        .map(  c => c.content.substring(1));
-
-      out.splice(pos, removeCount, ...insertLines);
-    });
-
-  return out.join('\n');
-}
+/* The content-level patch engine lives in patchUtils (no VS Code API there). */
+export { applyPatchToContent, applySelectedHunksToContent } from './patchUtils';
 
 /* ────────────────────────────────────────────────────────── */
-/* 2 ▸ INLINE-DIFF SESSION (unchanged code follows)           */
+/* 2 ▸ INLINE-DIFF REVIEW (one session per file)             */
 /* ────────────────────────────────────────────────────────── */
 
 export interface InlineDiffSession {
   uri: vscode.Uri;
   originalFileDiff: File;
-  editor: vscode.TextEditor;
+  /** 1-based position of the file in the patch, for "file i of n" labels. */
+  fileNumber: number;
+  /** Refreshed whenever the document is reopened; decorations go to every visible editor of it. */
+  document: vscode.TextDocument;
   codeLensProvider: DiffHunkCodeLensProvider;
   codeLensDisposable: vscode.Disposable;
   addedDecorationType: vscode.TextEditorDecorationType;
   removedDecorationType: vscode.TextEditorDecorationType;
   skippedHunkDecorationType: vscode.TextEditorDecorationType;
   appliedHunkDecorationType: vscode.TextEditorDecorationType;
+  conflictHunkDecorationType: vscode.TextEditorDecorationType;
   skippedHunkIndices: Set<number>;
   appliedHunkIndices: Set<number>;
   netLineChangesByHunkIndex: Map<number, number>;
+  /** Where each applied hunk actually landed (offset/fuzz relative to its header). */
+  appliedPlacementByHunkIndex: Map<number, HunkPlacement>;
+  /** Hunks applied with only some of their lines, merged with conflicts or adapted to the file's whitespace: the hunk that was written instead. */
+  partialChunkByHunkIndex: Map<number, Chunk>;
+  /** Lines added (negative: removed) above each hunk by manual edits during the review. */
+  manualLineShiftByHunkIndex: Map<number, number>;
+  /** Lines each hunk covered when last drawn, moved along with manual edits. */
+  anchorByHunkIndex: Map<number, HunkAnchor>;
+  /** Hunks whose target lines were edited by hand; they are not applied until re-checked. */
+  invalidatedHunkIndices: Set<number>;
+  /** Edits made by the review itself that have not completed yet; they are not manual edits. */
+  editsInFlight: number;
   activeHunkIndex: number | null;
 }
 
-export let activeInlineDiffSession: InlineDiffSession | undefined;
+/** Lines [start, end) of the document a hunk covers. */
+export interface HunkAnchor {
+  start: number;
+  end: number;
+}
+
+/**
+ * A whole-file change in the patch (new, deleted, renamed or copied file, or
+ * a mode change). It is confirmed as a whole, not hunk by hunk.
+ */
+export interface PendingFileOperation {
+  kind: 'create' | 'delete' | 'rename' | 'copy' | 'mode';
+  uri: vscode.Uri;
+  /** Source of a rename or copy. */
+  sourceUri?: vscode.Uri;
+  fileDiff: PatchFile;
+}
+
+export type HunkState = 'pending' | 'applied' | 'skipped';
+
+/** Where an applied hunk landed and how many lines it added (negative: removed). */
+export interface AppliedHunk {
+  placement: HunkPlacement;
+  lineDelta: number;
+  /** Set when the hunk was not written as it is (only some of its lines, merged, or re-indented): what was written instead. */
+  chunk?: Chunk;
+}
+
+/** One hunk decision, kept for review-wide undo/redo. */
+export interface HunkDecision {
+  session: InlineDiffSession;
+  hunkIndex: number;
+  from: HunkState;
+  to: HunkState;
+  /** Document text in the `from` and `to` states, to recognise an editor undo/redo of the edit. */
+  textBefore: string;
+  textAfter: string;
+  /** The applied side of the decision, to restore it without re-locating the hunk. */
+  applied?: AppliedHunk;
+}
+
+/** 1-based number of a patch in its series, and the number of patches. */
+export interface PatchSeriesPosition {
+  number: number;
+  total: number;
+}
+
+/** A `git format-patch` series on its way through review, one patch after the other. */
+export interface PatchSeries {
+  patches: SeriesPatch[];
+  /** Index of the next patch to review. */
+  next: number;
+  contextUri?: vscode.Uri;
+  sourceUri?: vscode.Uri;
+}
+
+/** One pasted patch: an inline session per modified file plus whole-file operations. */
+export interface ReviewSession {
+  /** Files still under review, in patch order. Finished files are removed. */
+  fileSessions: InlineDiffSession[];
+  /** Finished files, kept without code lenses or decorations so their decisions can be undone. */
+  finishedSessions: InlineDiffSession[];
+  fileOperations: PendingFileOperation[];
+  /** Number of modified files the patch started with, for "file i of n" labels. */
+  totalFiles: number;
+  undoStack: HunkDecision[];
+  redoStack: HunkDecision[];
+  /** Subject, body and author of a `git format-patch` patch, for committing what was staged. */
+  message?: PatchMessage;
+  /** Position of the patch in a series of them, reviewed one at a time. */
+  series?: PatchSeriesPosition;
+  disposables: vscode.Disposable[];
+}
+
+export let activeReviewSession: ReviewSession | undefined;
+
+const reviewChangeEmitter = new vscode.EventEmitter<ReviewSession | undefined>();
+/** Fires after the active review changed; `undefined` once it was cleared. */
+export const onDidChangeReviewSession = reviewChangeEmitter.event;
+
+function notifyReviewChanged() {
+  reviewChangeEmitter.fire(activeReviewSession);
+}
+
+/** True while the review still has hunks or whole-file operations waiting for a decision. */
+export function isReviewUnfinished(review: ReviewSession): boolean {
+  return review.fileSessions.length > 0 || review.fileOperations.length > 0;
+}
+
+/** Hand the review's whole-file operations to the caller (to confirm or apply) and forget them. */
+export function takeFileOperations(review: ReviewSession): PendingFileOperation[] {
+  const operations = review.fileOperations;
+  review.fileOperations = [];
+  notifyReviewChanged();
+  return operations;
+}
+
+/** A file's hunk decisions, as saved with the workspace so a review can be resumed. */
+export interface FileReviewState {
+  fileNumber: number;
+  applied: Array<[number, AppliedHunk]>;
+  skipped: number[];
+  invalidated: number[];
+  manualLineShifts: Array<[number, number]>;
+}
+
+export function getFileReviewState(session: InlineDiffSession): FileReviewState {
+  return {
+    fileNumber: session.fileNumber,
+    applied: [...session.appliedHunkIndices].map(index => [index, getAppliedHunk(session, index)!]),
+    skipped: [...session.skippedHunkIndices],
+    invalidated: [...session.invalidatedHunkIndices],
+    manualLineShifts: [...session.manualLineShiftByHunkIndex]
+  };
+}
+
+function restoreFileReviewState(session: InlineDiffSession, state: FileReviewState) {
+  // In file order: a saved placement already allows for the offsets of the applied hunks above it
+  [...state.applied]
+    .sort(([a], [b]) => a - b)
+    .forEach(([index, applied]) => setHunkState(session, index, 'applied', applied));
+  state.skipped.forEach(index => setHunkState(session, index, 'skipped'));
+  state.invalidated.forEach(index => session.invalidatedHunkIndices.add(index));
+  state.manualLineShifts.forEach(([index, shift]) => session.manualLineShiftByHunkIndex.set(index, shift));
+}
+
+export function getInlineDiffSession(uri: vscode.Uri): InlineDiffSession | undefined {
+  return activeReviewSession?.fileSessions.find(s => s.uri.toString() === uri.toString());
+}
+
+export function isHunkProcessed(session: InlineDiffSession, hunkIndex: number): boolean {
+  return session.appliedHunkIndices.has(hunkIndex) || session.skippedHunkIndices.has(hunkIndex);
+}
+
+export function findNextPendingHunk(session: InlineDiffSession): number {
+  return session.originalFileDiff.chunks.findIndex((_, idx) => !isHunkProcessed(session, idx));
+}
+
+export function getHunkState(session: InlineDiffSession, hunkIndex: number): HunkState {
+  if (session.appliedHunkIndices.has(hunkIndex)) {return 'applied';}
+  return session.skippedHunkIndices.has(hunkIndex) ? 'skipped' : 'pending';
+}
+
+export function getAppliedHunk(session: InlineDiffSession, hunkIndex: number): AppliedHunk | undefined {
+  const placement = session.appliedPlacementByHunkIndex.get(hunkIndex);
+  if (!placement || !session.appliedHunkIndices.has(hunkIndex)) {return undefined;}
+  return {
+    placement,
+    lineDelta: session.netLineChangesByHunkIndex.get(hunkIndex) || 0,
+    chunk: session.partialChunkByHunkIndex.get(hunkIndex)
+  };
+}
 
-export async function clearActiveInlineDiffSession() {
-  if (!activeInlineDiffSession) {return;}
-  const s = activeInlineDiffSession;
-  s.editor.setDecorations(s.addedDecorationType, []);
-  s.editor.setDecorations(s.removedDecorationType, []);
-  s.editor.setDecorations(s.skippedHunkDecorationType, []);
-  s.editor.setDecorations(s.appliedHunkDecorationType, []);
-  s.editor.setDecorations(phantomInsertedLineDecorationType, []);
-  s.codeLensDisposable.dispose();
-  s.addedDecorationType.dispose();
-  s.removedDecorationType.dispose();
-  s.skippedHunkDecorationType.dispose();
-  s.appliedHunkDecorationType.dispose();
-  activeInlineDiffSession = undefined;
+/** The hunk as it is (or would be) in the document: the applied part of a partly applied hunk, else the whole hunk. */
+export function getAppliedChunk(session: InlineDiffSession, hunkIndex: number): Chunk {
+  return session.partialChunkByHunkIndex.get(hunkIndex) ?? session.originalFileDiff.chunks[hunkIndex];
 }
 
-/* … everything else in this file stays exactly as before … */
+/**
+ * Record a hunk's new state. This only updates the bookkeeping; the caller
+ * has already edited the document for `applied` (and passes where the hunk
+ * landed) or reverted it for `pending`.
+ */
+export function setHunkState(session: InlineDiffSession, hunkIndex: number, state: HunkState, applied?: AppliedHunk) {
+  const carriedBefore = getAppliedHunk(session, hunkIndex)?.placement.offset ?? 0;
+  session.appliedHunkIndices.delete(hunkIndex);
+  session.skippedHunkIndices.delete(hunkIndex);
+  session.netLineChangesByHunkIndex.delete(hunkIndex);
+  session.appliedPlacementByHunkIndex.delete(hunkIndex);
+  session.partialChunkByHunkIndex.delete(hunkIndex);
+
+  if (state === 'skipped') {
+    session.skippedHunkIndices.add(hunkIndex);
+  } else if (state === 'applied' && applied) {
+    session.invalidatedHunkIndices.delete(hunkIndex);
+    session.appliedHunkIndices.add(hunkIndex);
+    session.netLineChangesByHunkIndex.set(hunkIndex, applied.lineDelta);
+    session.appliedPlacementByHunkIndex.set(hunkIndex, applied.placement);
+    if (applied.chunk) {
+      session.partialChunkByHunkIndex.set(hunkIndex, applied.chunk);
+    }
+  }
+
+  // The next applied hunk was located from a start carrying this hunk's offset; it stays where it is
+  const carriedChange = (getAppliedHunk(session, hunkIndex)?.placement.offset ?? 0) - carriedBefore;
+  const next = [...session.appliedHunkIndices].filter(index => index > hunkIndex).sort((a, b) => a - b)[0];
+  const nextPlacement = next !== undefined ? session.appliedPlacementByHunkIndex.get(next) : undefined;
+  if (carriedChange !== 0 && nextPlacement) {
+    session.appliedPlacementByHunkIndex.set(next, { ...nextPlacement, offset: nextPlacement.offset - carriedChange });
+  }
+}
 
+/** Remember a decision for undo; a new decision discards the redo history. */
+export function recordHunkDecision(decision: HunkDecision) {
+  if (!activeReviewSession) {return;}
+  activeReviewSession.undoStack.push(decision);
+  activeReviewSession.redoStack = [];
+}
+
+function getSessionEditors(session: InlineDiffSession): vscode.TextEditor[] {
+  return vscode.window.visibleTextEditors.filter(e => e.document.uri.toString() === session.uri.toString());
+}
 
-export function getAdjustedStartLineForHunk(hunkIndex: number): number {
-  if (!activeInlineDiffSession) {return -1;}
-  const { originalFileDiff, netLineChangesByHunkIndex, appliedHunkIndices } = activeInlineDiffSession;
-  let offset = 0;
+/**
+ * Remove one file's decorations and code lenses and move it to the review's
+ * finished files.
+ */
+export function disposeInlineDiffSession(session: InlineDiffSession) {
+  for (const editor of getSessionEditors(session)) {
+    editor.setDecorations(phantomInsertedLineDecorationType, []);
+  }
+  session.codeLensDisposable.dispose();
+  session.addedDecorationType.dispose();
+  session.removedDecorationType.dispose();
+  session.skippedHunkDecorationType.dispose();
+  session.appliedHunkDecorationType.dispose();
+  session.conflictHunkDecorationType.dispose();
+  if (activeReviewSession && activeReviewSession.fileSessions.includes(session)) {
+    activeReviewSession.fileSessions = activeReviewSession.fileSessions.filter(s => s !== session);
+    activeReviewSession.finishedSessions.push(session);
+    notifyReviewChanged();
+  }
+}
+
+/** Bring a finished file back under review (e.g. after undoing one of its decisions). */
+export function reviveInlineDiffSession(session: InlineDiffSession, document: vscode.TextDocument) {
+  const review = activeReviewSession;
+  if (!review || !review.finishedSessions.includes(session)) {return;}
+  review.finishedSessions = review.finishedSessions.filter(s => s !== session);
+  Object.assign(session, { document }, createSessionUi(document, session.originalFileDiff));
+  review.fileSessions.unshift(session);
+  notifyReviewChanged();
+}
+
+export function clearActiveReviewSession() {
+  if (!activeReviewSession) {return;}
+  const review = activeReviewSession;
+  [...review.fileSessions].forEach(disposeInlineDiffSession);
+  review.disposables.forEach(d => d.dispose());
+  activeReviewSession = undefined;
+  notifyReviewChanged();
+}
+
+/**
+ * Where a hunk is expected: its header position, moved by the lines earlier
+ * applied hunks added or removed and by the offset they were found at (as
+ * `applyHunksToText` carries it), and by hand edits above it.
+ */
+export function getAdjustedStartLineForHunk(session: InlineDiffSession, hunkIndex: number): number {
+  const { originalFileDiff, netLineChangesByHunkIndex, appliedHunkIndices, appliedPlacementByHunkIndex, manualLineShiftByHunkIndex } = session;
+  let offset = manualLineShiftByHunkIndex.get(hunkIndex) || 0;
   for (let i = 0; i < hunkIndex; i++) {
     if (appliedHunkIndices.has(i)) {
-      offset += netLineChangesByHunkIndex.get(i) || 0;
+      offset += (netLineChangesByHunkIndex.get(i) || 0) + (appliedPlacementByHunkIndex.get(i)?.offset || 0);
     }
   }
-  return originalFileDiff.chunks[hunkIndex].oldStart - 1 + offset;
+  return getHunkHeaderStart(originalFileDiff.chunks[hunkIndex]) + offset;
+}
+
+export function getDocumentLines(document: vscode.TextDocument): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < document.lineCount; i++) {
+    lines.push(document.lineAt(i).text);
+  }
+  return lines;
+}
+
+/**
+ * Locate a hunk in the current document text, starting at the position its
+ * header (plus already-applied hunks) predicts. Applied hunks report the
+ * placement they were applied at. `lines` are the document's lines, when the
+ * caller already has them; `chunk` is what will actually be written in place
+ * of the hunk, when that is not the hunk itself.
+ */
+export function resolveHunkPlacement(
+  session: InlineDiffSession,
+  hunkIndex: number,
+  lines?: string[],
+  chunk: Chunk = session.originalFileDiff.chunks[hunkIndex]
+): HunkPlacement | undefined {
+  const { document, appliedPlacementByHunkIndex } = session;
+  const expected = getAdjustedStartLineForHunk(session, hunkIndex);
+  const applied = appliedPlacementByHunkIndex.get(hunkIndex);
+  if (applied) {
+    return { ...applied, line: expected + applied.offset };
+  }
+  return locateHunk(lines ?? getDocumentLines(document), chunk, expected, getMatchOptions(document.uri));
+}
+
+/**
+ * A pending hunk whose context/deleted lines cannot be found in the document
+ * (even with offset and fuzz) is a conflict. Returns the first line that
+ * differs at the hunk's expected position, or undefined if it applies.
+ */
+export function getHunkConflict(
+  session: InlineDiffSession,
+  hunkIndex: number,
+  lines: string[] = getDocumentLines(session.document)
+): HunkMismatch | undefined {
+  if (isHunkProcessed(session, hunkIndex) || isHunkInvalidated(session, hunkIndex)) {return undefined;}
+  if (resolveHunkPlacement(session, hunkIndex, lines)) {return undefined;}
+
+  const expected = getAdjustedStartLineForHunk(session, hunkIndex);
+  return findFirstMismatch(lines, session.originalFileDiff.chunks[hunkIndex], expected, getMatchOptions(session.document.uri))
+    ?? { line: expected, expected: '', actual: undefined };
+}
+
+export function isHunkInvalidated(session: InlineDiffSession, hunkIndex: number): boolean {
+  return session.invalidatedHunkIndices.has(hunkIndex) && !session.appliedHunkIndices.has(hunkIndex);
+}
+
+/** Start line to show a hunk at: its located placement, else its header position. */
+export function getDisplayStartLineForHunk(session: InlineDiffSession, hunkIndex: number, lines?: string[]): number {
+  if (isHunkInvalidated(session, hunkIndex)) {
+    return session.anchorByHunkIndex.get(hunkIndex)?.start ?? getAdjustedStartLineForHunk(session, hunkIndex);
+  }
+  return resolveHunkPlacement(session, hunkIndex, lines)?.line ?? getAdjustedStartLineForHunk(session, hunkIndex);
 }
 
-export function updateDecorations() {
-  if (!activeInlineDiffSession) {return;}
+/**
+ * Where a pending hunk's `+`/`-` lines are drawn, by index into
+ * `chunk.changes`: removed lines on the document line they occupy, added
+ * lines as phantom text on the lines below the hunk.
+ */
+export function getChangeDisplayLines(session: InlineDiffSession, hunkIndex: number, docLines?: string[]): Map<number, number> {
+  const chunk = session.originalFileDiff.chunks[hunkIndex];
+  const startLine = getDisplayStartLineForHunk(session, hunkIndex, docLines);
+  const lines = new Map<number, number>();
+  let cursor = startLine;
+  let last = startLine;
+  chunk.changes.forEach((c, changeIndex) => {
+    if (isNoNewlineMarker(c)) {return;}
+    if (c.type === 'del') {lines.set(changeIndex, cursor);}
+    if (c.type !== 'add') {last = cursor++;}
+  });
+  let added = 0;
+  chunk.changes.forEach((c, changeIndex) => {
+    if (c.type === 'add' && !isNoNewlineMarker(c)) {
+      lines.set(changeIndex, Math.min(last + ++added, session.document.lineCount));
+    }
+  });
+  return lines;
+}
+
+/** Hunks that were rejected or are still pending, renumbered against the file's current text. */
+export function getUnappliedHunks(session: InlineDiffSession): Chunk[] {
+  const indices = session.originalFileDiff.chunks
+    .map((_, index) => index)
+    .filter(index => !session.appliedHunkIndices.has(index));
+  const lines = getDocumentLines(session.document);
+  return renumberHunks(
+    indices.map(index => session.originalFileDiff.chunks[index]),
+    indices.map(index => getDisplayStartLineForHunk(session, index, lines))
+  );
+}
+
+/** Remember which lines every hunk covers right now, so later manual edits can be related to them. */
+function updateHunkAnchors(session: InlineDiffSession, lines: string[] = getDocumentLines(session.document)) {
+  session.originalFileDiff.chunks.forEach((chunk, index) => {
+    const start = getDisplayStartLineForHunk(session, index, lines);
+    const length = session.appliedHunkIndices.has(index) ? getAppliedChunk(session, index).newLines : chunk.oldLines;
+    session.anchorByHunkIndex.set(index, { start, end: start + length });
+  });
+}
+
+/**
+ * Follow an edit the user typed (or pasted, or undid) during the review:
+ * hunks below it move with it, and pending or rejected hunks whose lines it
+ * touches are invalidated. `change` is relative to the text before the edit.
+ */
+function trackManualEdit(session: InlineDiffSession, change: vscode.TextDocumentContentChangeEvent) {
+  const { start, end } = change.range;
+  const delta = (change.text.match(/\n/g) || []).length - (end.line - start.line);
+  // Whole lines inserted or removed right above a hunk leave its first line alone
+  const wholeLinesBefore = start.character === 0 && end.character === 0 &&
+    (change.text === '' || change.text.endsWith('\n'));
+
+  session.anchorByHunkIndex.forEach((anchor, index) => {
+    if (end.line < anchor.start || (end.line === anchor.start && wholeLinesBefore)) {
+      anchor.start += delta;
+      anchor.end += delta;
+      session.manualLineShiftByHunkIndex.set(index, (session.manualLineShiftByHunkIndex.get(index) || 0) + delta);
+    } else if (start.line < anchor.end) {
+      anchor.end = Math.max(anchor.start, anchor.end + delta);
+      if (!session.appliedHunkIndices.has(index)) {
+        session.invalidatedHunkIndices.add(index);
+      }
+    }
+  });
+}
+
+/** Clear a hunk's hand-edited mark; it is located again from where it was last seen. */
+export function revalidateHunk(session: InlineDiffSession, hunkIndex: number) {
+  session.invalidatedHunkIndices.delete(hunkIndex);
+  const anchor = session.anchorByHunkIndex.get(hunkIndex);
+  if (anchor) {
+    // Search from where the hunk was last seen, not from where it was before the edit
+    const shift = anchor.start - getAdjustedStartLineForHunk(session, hunkIndex);
+    session.manualLineShiftByHunkIndex.set(hunkIndex, (session.manualLineShiftByHunkIndex.get(hunkIndex) || 0) + shift);
+  }
+}
+
+/**
+ * Replace a pending hunk by the pieces `splitHunk` cuts it into. State kept
+ * by hunk index moves along, so decisions on the other hunks stay as they
+ * were; undo/redo entries for the split hunk itself are dropped. Returns the
+ * number of pieces (1 when the hunk cannot be split).
+ */
+export function splitSessionHunk(session: InlineDiffSession, hunkIndex: number): number {
+  const chunk = session.originalFileDiff.chunks[hunkIndex];
+  const pieces = splitHunk(chunk);
+  if (pieces.length < 2 || isHunkProcessed(session, hunkIndex)) {return 1;}
+  const extra = pieces.length - 1;
+  const pieceIndices = pieces.map((_, k) => hunkIndex + k);
+  const moved = (index: number) => index > hunkIndex ? index + extra : index;
+  const remapSet = (set: Set<number>) => new Set([...set].flatMap(i => i === hunkIndex ? pieceIndices : [moved(i)]));
+  const remapMap = <T>(map: Map<number, T>, forPiece?: (value: T, piece: Chunk) => T) => new Map([...map].flatMap(
+    ([i, value]): Array<[number, T]> => i !== hunkIndex
+      ? [[moved(i), value]]
+      : forPiece ? pieces.map((piece, k) => [hunkIndex + k, forPiece(value, piece)]) : []
+  ));
+
+  session.originalFileDiff.chunks.splice(hunkIndex, 1, ...pieces);
+  session.appliedHunkIndices = remapSet(session.appliedHunkIndices);
+  session.skippedHunkIndices = remapSet(session.skippedHunkIndices);
+  session.invalidatedHunkIndices = remapSet(session.invalidatedHunkIndices);
+  session.netLineChangesByHunkIndex = remapMap(session.netLineChangesByHunkIndex);
+  session.appliedPlacementByHunkIndex = remapMap(session.appliedPlacementByHunkIndex);
+  session.partialChunkByHunkIndex = remapMap(session.partialChunkByHunkIndex);
+  session.manualLineShiftByHunkIndex = remapMap(session.manualLineShiftByHunkIndex, shift => shift);
+  session.anchorByHunkIndex = remapMap(session.anchorByHunkIndex, (anchor, piece) => {
+    const start = anchor.start + piece.oldStart - chunk.oldStart;
+    return { start, end: start + piece.oldLines };
+  });
+  if (session.activeHunkIndex !== null) {
+    session.activeHunkIndex = moved(session.activeHunkIndex);
+  }
+
+  const review = activeReviewSession;
+  if (review) {
+    const remapDecisions = (stack: HunkDecision[]) => stack
+      .filter(d => d.session !== session || d.hunkIndex !== hunkIndex)
+      .map(d => d.session === session ? { ...d, hunkIndex: moved(d.hunkIndex) } : d);
+    review.undoStack = remapDecisions(review.undoStack);
+    review.redoStack = remapDecisions(review.redoStack);
+  }
+  return pieces.length;
+}
+
+/**
+ * Give a pending hunk another result: `postimage` replaces its added lines
+ * (see `replaceHunkPostimage`), so the preview and applying it use the
+ * edit. Undo/redo entries for the hunk are dropped, as they refer to the
+ * hunk as it was. Returns false for a hunk that was decided already.
+ */
+export function editSessionHunk(session: InlineDiffSession, hunkIndex: number, postimage: string[]): boolean {
+  if (isHunkProcessed(session, hunkIndex)) {return false;}
+  session.originalFileDiff.chunks[hunkIndex] = replaceHunkPostimage(session.originalFileDiff.chunks[hunkIndex], postimage);
+
+  const review = activeReviewSession;
+  if (review) {
+    const keep = (d: HunkDecision) => d.session !== session || d.hunkIndex !== hunkIndex;
+    review.undoStack = review.undoStack.filter(keep);
+    review.redoStack = review.redoStack.filter(keep);
+  }
+  return true;
+}
+
+export function updateDecorations(session: InlineDiffSession) {
   const {
-    editor,
+    document,
     originalFileDiff,
     skippedHunkIndices,
     appliedHunkIndices,
@@ -125,26 +549,31 @@ export function updateDecorations() {
     removedDecorationType,
     skippedHunkDecorationType,
     appliedHunkDecorationType,
+    conflictHunkDecorationType,
     activeHunkIndex
-  } = activeInlineDiffSession;
+  } = session;
 
   const addedDecorations: vscode.Range[] = [];
   const removedDecorations: vscode.Range[] = [];
   const skippedDecorations: vscode.Range[] = [];
   const appliedDecorations: vscode.Range[] = [];
+  const conflictDecorations: vscode.DecorationOptions[] = [];
   const phantomDecorations: { range: vscode.Range; renderOptions: any }[] = [];
 
+  // Copied once per refresh: this runs on every keystroke while the review is open
+  const lines = getDocumentLines(document);
+  updateHunkAnchors(session, lines);
   originalFileDiff.chunks.forEach((chunk, index) => {
     const isSkipped = skippedHunkIndices.has(index);
     const isApplied = appliedHunkIndices.has(index);
-    const startLine = getAdjustedStartLineForHunk(index);
+    const startLine = getDisplayStartLineForHunk(session, index, lines);
     if (startLine < 0) {return;}
 
     if (isApplied) {
-      for (let i = 0; i < chunk.newLines; i++) {
+      for (let i = 0; i < getAppliedChunk(session, index).newLines; i++) {
         const ln = startLine + i;
-        if (ln >= 0 && ln < editor.document.lineCount) {
-          appliedDecorations.push(editor.document.lineAt(ln).range);
+        if (ln >= 0 && ln < document.lineCount) {
+          appliedDecorations.push(document.lineAt(ln).range);
         }
       }
       return;
@@ -152,87 +581,230 @@ export function updateDecorations() {
     if (isSkipped) {
       for (let i = 0; i < chunk.oldLines; i++) {
         const ln = startLine + i;
-        if (ln >= 0 && ln < editor.document.lineCount) {
-          skippedDecorations.push(editor.document.lineAt(ln).range);
+        if (ln >= 0 && ln < document.lineCount) {
+          skippedDecorations.push(document.lineAt(ln).range);
+        }
+      }
+      return;
+    }
+    const conflict = getHunkConflict(session, index, lines);
+    if (conflict || isHunkInvalidated(session, index)) {
+      const hoverMessage = conflict
+        ? `Conflict in hunk ${index + 1} at ${describeMismatch(conflict)}`
+        : `The lines of hunk ${index + 1} were edited by hand. Re-check it before applying.`;
+      for (let i = 0; i < Math.max(chunk.oldLines, 1); i++) {
+        const ln = startLine + i;
+        if (ln >= 0 && ln < document.lineCount) {
+          conflictDecorations.push({ range: document.lineAt(ln).range, hoverMessage });
         }
       }
       return;
     }
     if (activeHunkIndex === index) {
-      let cursor = startLine;
-      let last = startLine;
-      chunk.changes.forEach(c => {
-        if (c.type === 'normal') {
-          last = cursor++;
-        } else if (c.type === 'del') {
-          if (cursor >= 0 && cursor < editor.document.lineCount) {
-            removedDecorations.push(editor.document.lineAt(cursor).range);
+      getChangeDisplayLines(session, index, lines).forEach((ln, changeIndex) => {
+        const change = chunk.changes[changeIndex];
+        if (change.type === 'del') {
+          if (ln >= 0 && ln < document.lineCount) {
+            removedDecorations.push(document.lineAt(ln).range);
           }
-          last = cursor++;
+        } else {
+          phantomDecorations.push({
+            range: new vscode.Range(ln, 0, ln, 0),
+            renderOptions: { after: { contentText: getChangeText(change), margin: '0 0 0 0' } }
+          });
         }
       });
-      const adds = chunk.changes.filter(c => c.type === 'add').map(c => c.content.substring(1));
-      adds.forEach((text, idx) => {
-        const ln = Math.min(last + idx + 1, editor.document.lineCount);
-        phantomDecorations.push({
-          range: new vscode.Range(ln, 0, ln, 0),
-          renderOptions: { after: { contentText: text, margin: '0 0 0 0' } }
-        });
-      });
     }
   });
 
-  editor.setDecorations(addedDecorationType, addedDecorations);
-  editor.setDecorations(removedDecorationType, removedDecorations);
-  editor.setDecorations(skippedHunkDecorationType, skippedDecorations);
-  editor.setDecorations(appliedHunkDecorationType, appliedDecorations);
-  editor.setDecorations(phantomInsertedLineDecorationType, phantomDecorations);
+  for (const editor of getSessionEditors(session)) {
+    editor.setDecorations(addedDecorationType, addedDecorations);
+    editor.setDecorations(removedDecorationType, removedDecorations);
+    editor.setDecorations(skippedHunkDecorationType, skippedDecorations);
+    editor.setDecorations(appliedHunkDecorationType, appliedDecorations);
+    editor.setDecorations(conflictHunkDecorationType, conflictDecorations);
+    editor.setDecorations(phantomInsertedLineDecorationType, phantomDecorations);
+  }
 }
 
-export async function startInlineDiffReview(
-  editor: vscode.TextEditor,
-  fileDiff: File,
-  targetUri: vscode.Uri
-) {
-  await clearActiveInlineDiffSession();
+/** Redraw decorations and code lenses after a session's state changed. */
+export function refreshSession(session: InlineDiffSession) {
+  updateDecorations(session);
+  session.codeLensProvider.refresh();
+  notifyReviewChanged();
+}
 
-  const codeLensProvider = new DiffHunkCodeLensProvider(targetUri, fileDiff);
+type SessionUi = Pick<InlineDiffSession,
+  'codeLensProvider' | 'codeLensDisposable' | 'addedDecorationType' | 'removedDecorationType' |
+  'skippedHunkDecorationType' | 'appliedHunkDecorationType' | 'conflictHunkDecorationType'>;
+
+function createSessionUi(document: vscode.TextDocument, fileDiff: File): SessionUi {
+  const codeLensProvider = new DiffHunkCodeLensProvider(document.uri, fileDiff);
   const codeLensDisposable = vscode.languages.registerCodeLensProvider(
-    { scheme: 'file', language: editor.document.languageId, pattern: editor.document.fileName },
+    { scheme: document.uri.scheme, pattern: document.fileName },
     codeLensProvider
   );
 
-  activeInlineDiffSession = {
-    uri: targetUri,
-    originalFileDiff: fileDiff,
-    editor,
+  return {
     codeLensProvider,
     codeLensDisposable,
     addedDecorationType: vscode.window.createTextEditorDecorationType(addedLineDecorationOptions),
     removedDecorationType: vscode.window.createTextEditorDecorationType(removedLineDecorationOptions),
     skippedHunkDecorationType: vscode.window.createTextEditorDecorationType(skippedHunkDecorationOptions),
     appliedHunkDecorationType: vscode.window.createTextEditorDecorationType(appliedHunkDecorationOptions),
+    conflictHunkDecorationType: vscode.window.createTextEditorDecorationType(conflictHunkDecorationOptions)
+  };
+}
+
+function createInlineDiffSession(document: vscode.TextDocument, fileDiff: File, fileNumber: number): InlineDiffSession {
+  return {
+    uri: document.uri,
+    originalFileDiff: fileDiff,
+    fileNumber,
+    document,
+    ...createSessionUi(document, fileDiff),
     skippedHunkIndices: new Set(),
     appliedHunkIndices: new Set(),
     netLineChangesByHunkIndex: new Map(),
+    appliedPlacementByHunkIndex: new Map(),
+    partialChunkByHunkIndex: new Map(),
+    manualLineShiftByHunkIndex: new Map(),
+    anchorByHunkIndex: new Map(),
+    invalidatedHunkIndices: new Set(),
+    editsInFlight: 0,
     activeHunkIndex: null
   };
+}
+
+/**
+ * Start reviewing a whole patch: every modified file gets its own inline
+ * session (code lenses + decorations), and the first one is opened. Targets
+ * carrying a saved `state` resume with those decisions.
+ */
+export async function startReview(
+  targets: Array<{ uri: vscode.Uri; fileDiff: File; state?: FileReviewState }>,
+  fileOperations: PendingFileOperation[] = [],
+  message?: PatchMessage,
+  series?: PatchSeriesPosition
+) {
+  clearActiveReviewSession();
+
+  const review: ReviewSession = {
+    fileSessions: [],
+    finishedSessions: [],
+    fileOperations,
+    totalFiles: Math.max(targets.length, ...targets.map(t => t.state?.fileNumber ?? 0)),
+    undoStack: [],
+    redoStack: [],
+    message,
+    series,
+    disposables: []
+  };
+  activeReviewSession = review;
 
-  const first = fileDiff.chunks.findIndex((_, i) =>
-    !activeInlineDiffSession!.appliedHunkIndices.has(i) &&
-    !activeInlineDiffSession!.skippedHunkIndices.has(i)
+  for (const { uri, fileDiff, state } of targets) {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const session = createInlineDiffSession(document, fileDiff, state?.fileNumber ?? review.fileSessions.length + 1);
+    if (state) {
+      restoreFileReviewState(session, state);
+    }
+    updateHunkAnchors(session);
+    review.fileSessions.push(session);
+  }
+
+  review.disposables.push(
+    vscode.window.onDidChangeVisibleTextEditors(() => {
+      review.fileSessions.forEach(updateDecorations);
+    }),
+    vscode.workspace.onDidOpenTextDocument(document => {
+      const session = [...review.fileSessions, ...review.finishedSessions]
+        .find(s => s.uri.toString() === document.uri.toString());
+      if (session) {session.document = document;}
+    }),
+    vscode.workspace.onDidChangeTextDocument(event => {
+      if (!followEditorUndo(review, event)) {
+        followManualEdits(review, event);
+      }
+    })
   );
+
+  if (review.fileSessions.length > 0) {
+    await revealInlineDiffSession(review.fileSessions[0]);
+  }
+  notifyReviewChanged();
+}
+
+/**
+ * Ctrl+Z (or redo) of a hunk edit in the editor takes the decision back (or
+ * forward) too, so applied-hunk offsets and decorations match the text again.
+ */
+function followEditorUndo(review: ReviewSession, event: vscode.TextDocumentChangeEvent): boolean {
+  const { reason, document } = event;
+  if (reason === undefined) {return false;}
+  const undo = reason === vscode.TextDocumentChangeReason.Undo;
+  const stack = undo ? review.undoStack : review.redoStack;
+  const decision = stack[stack.length - 1];
+  if (!decision || decision.session.uri.toString() !== document.uri.toString()) {return false;}
+  if (decision.textBefore === decision.textAfter) {return false;}
+  if (document.getText() !== (undo ? decision.textBefore : decision.textAfter)) {return false;}
+
+  stack.pop();
+  (undo ? review.redoStack : review.undoStack).push(decision);
+  const { session, hunkIndex } = decision;
+  const state = undo ? decision.from : decision.to;
+  setHunkState(session, hunkIndex, state, decision.applied);
+
+  if (state === 'pending') {
+    reviveInlineDiffSession(session, document);
+    session.activeHunkIndex = hunkIndex;
+  }
+  if (review.fileSessions.includes(session)) {
+    refreshSession(session);
+  }
+  return true;
+}
+
+/** Keep every session of the edited document in step with edits the review did not make. */
+function followManualEdits(review: ReviewSession, event: vscode.TextDocumentChangeEvent) {
+  if (event.contentChanges.length === 0) {return;}
+  const uri = event.document.uri.toString();
+  for (const session of [...review.fileSessions, ...review.finishedSessions]) {
+    if (session.uri.toString() !== uri || session.editsInFlight > 0) {continue;}
+    // Bottom-up, so every change still refers to lines no other change has moved
+    [...event.contentChanges]
+      .sort((a, b) => b.range.start.compareTo(a.range.start))
+      .forEach(change => trackManualEdit(session, change));
+    if (review.fileSessions.includes(session)) {
+      refreshSession(session);
+    }
+  }
+}
+
+/** Open a file's editor and preview its first pending hunk. */
+export async function revealInlineDiffSession(session: InlineDiffSession) {
+  await vscode.window.showTextDocument(session.uri, { preview: false });
+  const first = findNextPendingHunk(session);
   if (first !== -1) {
-    await previewHunk(first);
+    await previewHunk(session, first);
   }
-  updateDecorations();
-  activeInlineDiffSession.codeLensProvider.refresh();
+  refreshSession(session);
 }
 
-export async function previewHunk(hunkIndex: number) {
-  if (!activeInlineDiffSession) {return;}
-  activeInlineDiffSession.activeHunkIndex = hunkIndex;
-  updateDecorations();
+export async function previewHunk(session: InlineDiffSession, hunkIndex: number) {
+  session.activeHunkIndex = hunkIndex;
+  updateDecorations(session);
+}
+
+/** Open the hunk's file, scroll the hunk into view and (while the file is under review) preview it. */
+export async function revealHunk(session: InlineDiffSession, hunkIndex: number) {
+  const editor = await vscode.window.showTextDocument(session.uri, { preview: false });
+  const line = Math.min(Math.max(getDisplayStartLineForHunk(session, hunkIndex), 0), editor.document.lineCount - 1);
+  const position = new vscode.Position(line, 0);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  if (activeReviewSession?.fileSessions.includes(session)) {
+    await previewHunk(session, hunkIndex);
+  }
 }
 
 export class DiffHunkCodeLensProvider implements vscode.CodeLensProvider {
@@ -246,14 +818,24 @@ export class DiffHunkCodeLensProvider implements vscode.CodeLensProvider {
   }
 
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
-    if (!activeInlineDiffSession || document.uri.toString() !== this.documentUri.toString()) {
+    if (document.uri.toString() !== this.documentUri.toString()) {
+      return [];
+    }
+    const session = getInlineDiffSession(this.documentUri);
+    if (!session || !activeReviewSession) {
       return [];
     }
 
-    const { skippedHunkIndices, appliedHunkIndices } = activeInlineDiffSession;
     const lenses: vscode.CodeLens[] = [];
     const top = new vscode.Range(0, 0, 0, 0);
+    const review = activeReviewSession;
 
+    if (review.totalFiles > 1) {
+      lenses.push(new vscode.CodeLens(top, {
+        title: `Patch file ${session.fileNumber} of ${review.totalFiles}`,
+        command: ''
+      }));
+    }
     lenses.push(new vscode.CodeLens(top, {
       title: "Apply All Remaining Hunks in File",
       command: "quick-diff-apply.applyAllRemainingInFile",
@@ -264,17 +846,84 @@ export class DiffHunkCodeLensProvider implements vscode.CodeLensProvider {
       command: "quick-diff-apply.discardAllInFile",
       arguments: [this.documentUri]
     }));
+    if (review.fileSessions.length > 1 || review.fileOperations.length > 0) {
+      lenses.push(new vscode.CodeLens(top, {
+        title: "Apply Everything Left in Patch",
+        command: "quick-diff-apply.applyAllRemainingInReview"
+      }));
+    }
 
+    const lines = getDocumentLines(document);
     this.fileDiff.chunks.forEach((_, idx) => {
-      if (appliedHunkIndices.has(idx) || skippedHunkIndices.has(idx)) {return;}
-      const ln = getAdjustedStartLineForHunk(idx);
+      const state = getHunkState(session, idx);
+      if (state !== 'pending') {
+        const ln = getDisplayStartLineForHunk(session, idx, lines);
+        if (ln >= 0 && ln < document.lineCount) {
+          lenses.push(new vscode.CodeLens(new vscode.Range(ln, 0, ln, 0), state === 'applied' ? {
+            title: "Revert this Hunk",
+            command: "quick-diff-apply.revertHunk",
+            arguments: [this.documentUri, idx]
+          } : {
+            title: "Reconsider this Hunk",
+            command: "quick-diff-apply.reconsiderHunk",
+            arguments: [this.documentUri, idx]
+          }));
+        }
+        return;
+      }
+      const invalidated = isHunkInvalidated(session, idx);
+      const placement = invalidated ? undefined : resolveHunkPlacement(session, idx, lines);
+      const ln = placement?.line ?? getDisplayStartLineForHunk(session, idx, lines);
       if (ln >= 0 && ln < document.lineCount) {
         const range = new vscode.Range(ln, 0, ln, 0);
-        lenses.push(new vscode.CodeLens(range, {
-          title: "Apply this Hunk",
-          command: "quick-diff-apply.applyHunkOnly",
-          arguments: [this.documentUri, idx]
-        }));
+        const conflict = placement ? undefined : getHunkConflict(session, idx, lines);
+        if (invalidated) {
+          lenses.push(new vscode.CodeLens(range, {
+            title: "Edited by hand: Re-check this Hunk",
+            tooltip: "The hunk's lines changed after the review started. Re-check locates it again in the current text.",
+            command: "quick-diff-apply.recheckHunk",
+            arguments: [this.documentUri, idx]
+          }));
+        } else if (conflict) {
+          lenses.push(new vscode.CodeLens(range, {
+            title: `Conflict (line ${conflict.line + 1} differs)`,
+            tooltip: describeMismatch(conflict),
+            command: "quick-diff-apply.showHunkConflict",
+            arguments: [this.documentUri, idx]
+          }));
+          lenses.push(new vscode.CodeLens(range, {
+            title: "Merge with Conflicts",
+            tooltip: "Merge the hunk into the file anyway; lines changed on both sides are left between conflict markers",
+            command: "quick-diff-apply.mergeHunk",
+            arguments: [this.documentUri, idx]
+          }));
+        } else {
+          lenses.push(new vscode.CodeLens(range, {
+            title: `Apply this Hunk${placement ? describePlacement(placement) : ''}`,
+            command: "quick-diff-apply.applyHunkOnly",
+            arguments: [this.documentUri, idx]
+          }));
+          lenses.push(new vscode.CodeLens(range, {
+            title: "Apply Some Lines…",
+            tooltip: "Choose which + and - lines of this hunk to apply",
+            command: "quick-diff-apply.applySelectedLines",
+            arguments: [this.documentUri, idx]
+          }));
+          lenses.push(new vscode.CodeLens(range, {
+            title: "Edit this Hunk",
+            tooltip: "Change the lines the hunk writes before applying it",
+            command: "quick-diff-apply.editHunk",
+            arguments: [this.documentUri, idx]
+          }));
+        }
+        if (splitHunk(this.fileDiff.chunks[idx]).length > 1) {
+          lenses.push(new vscode.CodeLens(range, {
+            title: "Split this Hunk",
+            tooltip: "Cut the hunk into smaller hunks at the unchanged lines between its changes",
+            command: "quick-diff-apply.splitHunk",
+            arguments: [this.documentUri, idx]
+          }));
+        }
         lenses.push(new vscode.CodeLens(range, {
           title: "Reject this Hunk",
           command: "quick-diff-apply.skipHunk",
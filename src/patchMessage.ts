@@ -0,0 +1,99 @@
+// src/patchMessage.ts
+
+/* ────────────────────────────────────────────────────────── */
+/* Commit message of `git format-patch` output                */
+/* ────────────────────────────────────────────────────────── */
+
+/** What `git format-patch` writes above the diff, enough to commit the patch again. */
+export interface PatchMessage {
+  /** `Subject:` without its `[PATCH …]` prefix. */
+  subject: string;
+  /** Message body up to the `---` line; may be empty. */
+  body: string;
+  /** `From:` header, e.g. `A U Thor <author@example.com>`. */
+  author?: string;
+  /** `Date:` header, as git wrote it. */
+  date?: string;
+}
+
+const ENCODED_WORD = /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi;
+
+/** Decode RFC 2047 words (`=?UTF-8?q?J=C3=B6rg?=`), as git writes non-ASCII names and subjects. */
+function decodeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(ENCODED_WORD, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return bytes.toString(/^utf-?8$/i.test(charset) ? 'utf8' : 'latin1');
+    });
+}
+
+/** The line that ends a patch's message: the `---` before the diffstat, or the diff itself. */
+function isMessageEnd(line: string): boolean {
+  return line === '---' || line.startsWith('diff --git ') || line.startsWith('--- ') || line.startsWith('Index: ');
+}
+
+/**
+ * Read the mail headers and message of a patch made by `git format-patch`.
+ * Undefined when the text does not start with them (a plain diff).
+ */
+export function parsePatchMessage(text: string): PatchMessage | undefined {
+  const lines = text.replace(/^\s*\n/, '').split(/\r?\n/);
+  let i = /^From [0-9a-f]+ /.test(lines[0]) ? 1 : 0;
+
+  const headers = new Map<string, string>();
+  let name: string | undefined;
+  for (; i < lines.length && lines[i] !== ''; i++) {
+    const line = lines[i];
+    if (/^\s/.test(line) && name) {
+      headers.set(name, `${headers.get(name)} ${line.trim()}`);
+      continue;
+    }
+    const header = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!header) {return undefined;}
+    name = header[1].toLowerCase();
+    headers.set(name, header[2]);
+  }
+  const subject = headers.get('subject');
+  if (subject === undefined) {return undefined;}
+
+  const body: string[] = [];
+  for (i++; i < lines.length && !isMessageEnd(lines[i]); i++) {
+    body.push(lines[i]);
+  }
+  const from = headers.get('from');
+  const date = headers.get('date');
+  return {
+    subject: decodeHeader(subject).replace(/^(\s*\[[^\]]*\])+\s*/, '').trim(),
+    body: body.join('\n').trim(),
+    author: from ? decodeHeader(from).trim() : undefined,
+    date: date?.trim()
+  };
+}
+
+/** One message of a patch series: its commit message and its patch. */
+export interface SeriesPatch {
+  message: PatchMessage;
+  /** The whole message, mail headers included. */
+  text: string;
+}
+
+/** The line `git format-patch` starts every message with. */
+const MBOX_FROM_LINE = /^From [0-9a-f]{40} /;
+
+/**
+ * Split mbox text, e.g. the output of `git format-patch --stdout`, into its
+ * patches, in order. Text before the first `From <sha>` line is ignored;
+ * text without one gives no patches.
+ */
+export function splitPatchSeries(text: string): SeriesPatch[] {
+  const lines = text.split(/\r?\n/);
+  const starts = lines.flatMap((line, i) => MBOX_FROM_LINE.test(line) ? [i] : []);
+  return starts.flatMap((start, i) => {
+    const patchText = lines.slice(start, starts[i + 1] ?? lines.length).join('\n');
+    const message = parsePatchMessage(patchText);
+    return message ? [{ message, text: patchText }] : [];
+  });
+}
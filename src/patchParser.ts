@@ -0,0 +1,229 @@
+// src/patchParser.ts
+import parseDiff, { File } from 'parse-diff';
+import { reverseHunk } from './hunkMatcher';
+
+/**
+ * A parsed file diff plus the git extended headers parse-diff ignores
+ * (`rename from`/`to`, `copy from`/`to`, `similarity index`, binary markers).
+ * `oldMode`/`newMode` are re-read so an `index … 100644` line cannot mask a
+ * real mode change.
+ */
+export interface PatchFile extends File {
+  renameFrom?: string;
+  renameTo?: string;
+  copyFrom?: string;
+  copyTo?: string;
+  /** `similarity index` percentage of a rename or copy. */
+  similarity?: number;
+  /** `Binary files … differ` or `GIT binary patch`; the content cannot be applied. */
+  binary?: boolean;
+  /** Lenient parsing: the diff had no `---`/`+++` header, so it does not say which file it is for. */
+  headerless?: boolean;
+  /** Lenient parsing: hunks whose header had no line numbers (`@@ ... @@`, bare `@@`). */
+  unnumberedHunks?: number[];
+}
+
+export interface ParseOptions {
+  /**
+   * Accept diffs as language models write them: hunk sizes are recounted
+   * from the change lines, headers without line numbers are allowed and
+   * hunks may come without any file header.
+   */
+  lenient: boolean;
+}
+
+export const defaultParseOptions: ParseOptions = { lenient: false };
+
+interface GitExtendedHeader {
+  renameFrom?: string;
+  renameTo?: string;
+  copyFrom?: string;
+  copyTo?: string;
+  similarity?: number;
+  oldMode?: string;
+  newMode?: string;
+  binary: boolean;
+}
+
+function unquotePath(path: string): string {
+  const trimmed = path.trim();
+  return /^".*"$/.test(trimmed) ? trimmed.slice(1, -1).replace(/\\(["\\])/g, '$1') : trimmed;
+}
+
+/** One header per `diff --git` line, in order. */
+function parseGitExtendedHeaders(diffText: string): GitExtendedHeader[] {
+  const headers: GitExtendedHeader[] = [];
+  let current: GitExtendedHeader | undefined;
+
+  for (const line of diffText.split(/\r?\n/)) {
+    if (line.startsWith('diff --git ')) {
+      current = { binary: false };
+      headers.push(current);
+      continue;
+    }
+    if (!current) {continue;}
+
+    let m: RegExpMatchArray | null;
+    if (line.startsWith('@@')) {
+      current = undefined; // hunk content follows; nothing more for this header
+    } else if ((m = line.match(/^old mode (\d+)$/)) || (m = line.match(/^deleted file mode (\d+)$/))) {
+      current.oldMode = m[1];
+    } else if ((m = line.match(/^new mode (\d+)$/)) || (m = line.match(/^new file mode (\d+)$/))) {
+      current.newMode = m[1];
+    } else if ((m = line.match(/^similarity index (\d+)%$/))) {
+      current.similarity = Number(m[1]);
+    } else if ((m = line.match(/^rename from (.+)$/))) {
+      current.renameFrom = unquotePath(m[1]);
+    } else if ((m = line.match(/^rename to (.+)$/))) {
+      current.renameTo = unquotePath(m[1]);
+    } else if ((m = line.match(/^copy from (.+)$/))) {
+      current.copyFrom = unquotePath(m[1]);
+    } else if ((m = line.match(/^copy to (.+)$/))) {
+      current.copyTo = unquotePath(m[1]);
+    } else if (/^Binary files .* differ$/.test(line) || line === 'GIT binary patch') {
+      current.binary = true;
+    }
+  }
+  return headers;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+/** Stands in for the file name of hunks that came without a file header. */
+const HEADERLESS_PATH = '<headerless>';
+
+function startsFileHeader(lines: string[], i: number): boolean {
+  return lines[i].startsWith('diff --git ') ||
+    (lines[i].startsWith('--- ') && (lines[i + 1]?.startsWith('+++ ') ?? false));
+}
+
+/**
+ * Rewrite every hunk header with sizes counted from its lines, and give
+ * headers without line numbers a placeholder start. Blank lines inside a
+ * hunk are context lines whose leading space was lost; blank lines at its
+ * end are left alone. Returns, in hunk order, which hunks had no numbers.
+ */
+function normalizeLenientDiff(diffText: string): { text: string; unnumbered: boolean[] } {
+  const lines = diffText.split('\n');
+  const out: string[] = [];
+  const unnumbered: boolean[] = [];
+  let inFile = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (startsFileHeader(lines, i)) {
+      inFile = true;
+    }
+    if (!lines[i].startsWith('@@')) {
+      out.push(lines[i]);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < lines.length && /^([ +\-\\]|\r?$)/.test(lines[end]) && !startsFileHeader(lines, end)) {end++;}
+    while (end > i + 1 && /^\r?$/.test(lines[end - 1])) {end--;}
+    const body = lines.slice(i + 1, end).map(line => (/^\r?$/.test(line) ? ' ' + line : line));
+    const oldLines = body.filter(line => line.startsWith(' ') || line.startsWith('-')).length;
+    const newLines = body.filter(line => line.startsWith(' ') || line.startsWith('+')).length;
+
+    const m = lines[i].match(HUNK_HEADER);
+    unnumbered.push(!m);
+    const section = m ? m[5] : lines[i].replace(/^@@[^@]*(@@)?/, '');
+    if (!inFile) {
+      out.push(`--- ${HEADERLESS_PATH}`, `+++ ${HEADERLESS_PATH}`);
+      inFile = true;
+    }
+    out.push(`@@ -${m ? m[1] : 1},${oldLines} +${m ? m[3] : 1},${newLines} @@${section}`, ...body);
+    i = end - 1;
+  }
+  return { text: out.join('\n'), unnumbered };
+}
+
+/** Parse a unified diff, including git's extended headers. */
+export function parsePatch(diffText: string, options: ParseOptions = defaultParseOptions): PatchFile[] {
+  if (!options.lenient) {return parseStrictPatch(diffText);}
+
+  const { text, unnumbered } = normalizeLenientDiff(diffText);
+  const files = parseStrictPatch(text);
+  const chunkCount = files.reduce((n, file) => n + file.chunks.length, 0);
+  let hunk = 0;
+  for (const file of files) {
+    if (file.from === HEADERLESS_PATH) {
+      file.headerless = true;
+      file.from = undefined;
+      file.to = undefined;
+    }
+    const indices = file.chunks.map((_, index) => index).filter(index => unnumbered[hunk + index]);
+    if (chunkCount === unnumbered.length && indices.length > 0) {
+      file.unnumberedHunks = indices;
+    }
+    hunk += file.chunks.length;
+  }
+  return files;
+}
+
+function parseStrictPatch(diffText: string): PatchFile[] {
+  const files: PatchFile[] = parseDiff(diffText);
+  const headers = parseGitExtendedHeaders(diffText);
+
+  // parse-diff starts a new file at every `diff --git` line, so the two
+  // lists line up whenever every file in the patch has a git header.
+  if (headers.length !== files.length) {return files;}
+
+  files.forEach((file, i) => {
+    const header = headers[i];
+    file.oldMode = header.oldMode;
+    file.newMode = header.newMode;
+    if (header.similarity !== undefined) {file.similarity = header.similarity;}
+    if (header.binary) {file.binary = true;}
+    if (header.renameFrom && header.renameTo) {
+      file.renameFrom = header.renameFrom;
+      file.renameTo = header.renameTo;
+      file.from = header.renameFrom;
+      file.to = header.renameTo;
+    }
+    if (header.copyFrom && header.copyTo) {
+      file.copyFrom = header.copyFrom;
+      file.copyTo = header.copyTo;
+      file.from = header.copyFrom;
+      file.to = header.copyTo;
+    }
+  });
+  return files;
+}
+
+/** True when the file's permissions change (e.g. `100644` → `100755`). */
+export function hasModeChange(file: PatchFile): boolean {
+  return !!file.oldMode && !!file.newMode && file.oldMode !== file.newMode && !file.new && !file.deleted;
+}
+
+/**
+ * The patch that undoes `file`: hunks reversed, old and new sides swapped.
+ * A new file becomes a deletion and the other way round, a rename goes back
+ * to the old name, and a copy becomes the deletion of the copy.
+ */
+export function reversePatchFile(file: PatchFile): PatchFile {
+  const reversed: PatchFile = {
+    ...file,
+    chunks: file.chunks.map(reverseHunk),
+    from: file.to,
+    to: file.from,
+    new: file.deleted,
+    deleted: file.new,
+    oldMode: file.newMode,
+    newMode: file.oldMode,
+    additions: file.deletions,
+    deletions: file.additions,
+    renameFrom: file.renameTo,
+    renameTo: file.renameFrom
+  };
+  if (file.copyFrom && file.copyTo) {
+    return {
+      ...reversed,
+      from: file.copyTo,
+      to: '/dev/null',
+      deleted: true,
+      copyFrom: undefined,
+      copyTo: undefined
+    };
+  }
+  return reversed;
+}
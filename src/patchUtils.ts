@@ -1,69 +1,211 @@
-import parseDiff, { File, Chunk, Change, NormalChange, DeleteChange, AddChange } from 'parse-diff';
-
-// Helper function to apply patch to content
-export function applyPatchToContent(originalContent: string, fileDiff: File): string {
-    const lines = originalContent.split('\n');
-    let newContent = '';
-    let lastLineProcessed = -1;
-
-    fileDiff.chunks.forEach(chunk => {
-        // Add unchanged lines before the chunk
-        if (chunk.oldStart > 0) {
-            for (let i = lastLineProcessed + 1; i < chunk.oldStart -1; i++) {
-                newContent += lines[i] + '\n';
-            }
-        }
+import { File, Chunk } from 'parse-diff';
+import {
+    HunkConflictError,
+    HunkMismatch,
+    HunkPlacement,
+    MatchOptions,
+    defaultMatchOptions,
+    adaptHunkToTarget,
+    findFirstMismatch,
+    getHunkEndOfFileFlags,
+    getHunkHeaderStart,
+    getHunkPostimage,
+    getHunkPreimage,
+    locateHunk
+} from './hunkMatcher';
 
+/** A text buffer split into lines, remembering its line ending and final newline. */
+export interface SplitText {
+    lines: string[];
+    eol: '\n' | '\r\n';
+    finalNewline: boolean;
+}
 
-        chunk.changes.forEach(change => {
-            if (change.type === 'del') {
-                // Skip deleted lines
-            } else if (change.type === 'add') {
-                newContent += change.content.substring(1) + '\n'; // Remove '+' prefix
-            } else if (change.type === 'normal') {
-                newContent += change.content.substring(1) + '\n'; // Remove ' ' prefix
-            }
-        });
-        if (chunk.changes.length > 0) {
-            const lastChange = chunk.changes[chunk.changes.length - 1];
-            if (lastChange.type === 'normal') {
-                // For normal changes, use ln1 property
-                lastLineProcessed = (lastChange as NormalChange).ln1 || lastLineProcessed;
-            } else if (lastChange.type === 'del') {
-                // For deleted lines, use ln property
-                lastLineProcessed = (lastChange as DeleteChange).ln || lastLineProcessed;
-            } else if (lastChange.type === 'add') {
-                 // For add changes, the original line number context is from the previous normal/del line or chunk.oldStart
-                 // This part might need more sophisticated logic if adds are not immediately following a normal/del or start of chunk
-                 // However, typical diffs place adds relative to existing lines.
-            }
-        }
-    });
+/** The buffer's dominant line ending; LF when there are no line breaks. */
+export function detectEol(content: string): '\n' | '\r\n' {
+    const crlf = (content.match(/\r\n/g) || []).length;
+    const lf = (content.match(/\n/g) || []).length - crlf;
+    return crlf > lf ? '\r\n' : '\n';
+}
 
-    // Add remaining unchanged lines after the last chunk
-    for (let i = lastLineProcessed +1; i < lines.length; i++) {
-        newContent += lines[i] + (i < lines.length -1 ? '\n' : ''); // Avoid trailing newline if it's the last line and was not in original
+export function splitLines(content: string): SplitText {
+    const eol = detectEol(content);
+    if (content === '') {
+        return { lines: [], eol, finalNewline: true };
     }
-    if (originalContent.endsWith('\n') && !newContent.endsWith('\n') && newContent !== '') {
-        newContent += '\n';
+    const lines = content.split(/\r?\n/);
+    const finalNewline = lines[lines.length - 1] === '';
+    if (finalNewline) {
+        lines.pop();
     }
+    return { lines, eol, finalNewline };
+}
 
+export function joinLines({ lines, eol, finalNewline }: SplitText): string {
+    if (lines.length === 0) {
+        return '';
+    }
+    return lines.join(eol) + (finalNewline ? eol : '');
+}
 
-    return newContent;
+/** What trying one hunk in memory found. */
+export interface HunkCheck {
+    hunkIndex: number;
+    /** Where the hunk would be applied; undefined when it conflicts. */
+    placement?: HunkPlacement;
+    /** First line that differs, for a conflicting hunk. */
+    mismatch?: HunkMismatch;
 }
 
-export function getNewFileContentFromDiff(fileDiff: File): string {
-    let newContent = '';
-    fileDiff.chunks.forEach(chunk => {
-        chunk.changes.forEach(change => {
-            if (change.type === 'add' || change.type === 'normal') {
-                newContent += change.content.substring(1) + '\n'; // Remove '+' or ' ' prefix
+/**
+ * Apply the given hunks (in ascending index order) to a buffer. Every hunk is
+ * located and verified first; a hunk that does not match throws a
+ * `HunkConflictError` instead of overwriting unrelated lines. With `checks`,
+ * every hunk's outcome is recorded there instead and conflicting hunks are
+ * left out. The buffer's line ending is kept, and the final newline is added
+ * or removed exactly as the diff's `\ No newline at end of file` markers say.
+ */
+function applyHunksToText(
+    originalContent: string,
+    allHunks: Chunk[],
+    indices: number[],
+    options: MatchOptions,
+    checks?: HunkCheck[]
+): string {
+    const text = splitLines(originalContent);
+    const out = text.lines;
+    let delta = 0;
+
+    [...indices]
+        .sort((a, b) => a - b)
+        .forEach(idx => {
+            const hunk = allHunks[idx];
+            if (!hunk) {return;}
+
+            const expected  = getHunkHeaderStart(hunk) + delta;
+            const placement = locateHunk(out, hunk, expected, options);
+            if (!placement) {
+                const mismatch = findFirstMismatch(out, hunk, expected, options) ?? { line: expected, expected: '', actual: undefined };
+                if (!checks) {
+                    throw new HunkConflictError(idx, mismatch);
+                }
+                checks.push({ hunkIndex: idx, mismatch });
+                return;
+            }
+            checks?.push({ hunkIndex: idx, placement });
+
+            const postimage   = getHunkPostimage(adaptHunkToTarget(out, hunk, placement, options));
+            const insertLines = postimage.slice(placement.leadingTrimmed, postimage.length - placement.trailingTrimmed);
+            const oldLength   = getHunkPreimage(hunk).length;
+            const removeCount = oldLength - placement.leadingTrimmed - placement.trailingTrimmed;
+            const start       = placement.line + placement.leadingTrimmed;
+            const reachesEof  = placement.line + oldLength >= out.length;
+
+            out.splice(start, removeCount, ...insertLines);
+            delta += placement.offset + insertLines.length - removeCount;
+
+            if (reachesEof) {
+                const { oldMissingNewline, newMissingNewline } = getHunkEndOfFileFlags(hunk);
+                if (newMissingNewline) {
+                    text.finalNewline = false;
+                } else if (oldMissingNewline) {
+                    text.finalNewline = true;
+                }
             }
         });
-    });
-    // Remove the last newline character if the content is not empty
-    if (newContent.length > 0) {
-        newContent = newContent.slice(0, -1);
+
+    return joinLines(text);
+}
+
+/** Apply an entire unified diff to a text buffer (all hunks). */
+export function applyPatchToContent(
+    originalContent: string,
+    fileDiff: File,
+    options: MatchOptions = defaultMatchOptions
+): string {
+    return applyHunksToText(originalContent, fileDiff.chunks, fileDiff.chunks.map((_, i) => i), options);
+}
+
+/** Apply *only* the selected hunks (by index) to a text buffer. */
+export function applySelectedHunksToContent(
+    originalContent: string,
+    allHunks: Chunk[],
+    indices: number[],
+    options: MatchOptions = defaultMatchOptions
+): string {
+    return applyHunksToText(originalContent, allHunks, indices, options);
+}
+
+/**
+ * Try every hunk of a file diff against `content` without stopping at
+ * conflicts, as `git apply --check` does. Hunks after a conflicting one are
+ * tried against the text the hunks before them would leave.
+ */
+export function checkHunksAgainstContent(
+    content: string,
+    chunks: Chunk[],
+    options: MatchOptions = defaultMatchOptions
+): HunkCheck[] {
+    const checks: HunkCheck[] = [];
+    applyHunksToText(content, chunks, chunks.map((_, i) => i), options, checks);
+    return checks;
+}
+
+/** Contents of a file created by the diff, ending in a newline unless the diff says otherwise. */
+export function getNewFileContentFromDiff(fileDiff: File, eol: '\n' | '\r\n' = '\n'): string {
+    const lines = fileDiff.chunks.flatMap(getHunkPostimage);
+    const lastChunk = fileDiff.chunks[fileDiff.chunks.length - 1];
+    const finalNewline = !lastChunk || !getHunkEndOfFileFlags(lastChunk).newMissingNewline;
+    return joinLines({ lines, eol, finalNewline });
+}
+
+/** A replacement of whole lines, expressed in (line, character) positions. */
+export interface LineReplacement {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+    text: string;
+}
+
+/**
+ * Build the edit that replaces target lines [startLine, endLine) with
+ * `newLines`, using the document's `eol`. `docLines` are the document's lines
+ * as an editor reports them (a final newline shows up as a trailing empty
+ * line). When the replaced range reaches the end of the file, the final
+ * newline is kept, added or removed as the hunk's end-of-file markers say.
+ */
+export function buildLineReplacement(
+    docLines: string[],
+    eol: '\n' | '\r\n',
+    startLine: number,
+    endLine: number,
+    newLines: string[],
+    hunk: Chunk
+): LineReplacement {
+    const lastLine = docLines.length - 1;
+    const hasFinalNewline = docLines.length === 0 || docLines[lastLine] === '';
+    const contentLineCount = hasFinalNewline ? Math.max(docLines.length - 1, 0) : docLines.length;
+
+    if (endLine < contentLineCount) {
+        return {
+            start: { line: startLine, character: 0 },
+            end: { line: endLine, character: 0 },
+            text: newLines.map(l => l + eol).join('')
+        };
+    }
+
+    const { oldMissingNewline, newMissingNewline } = getHunkEndOfFileFlags(hunk);
+    const finalNewline = newMissingNewline ? false : (oldMissingNewline ? true : hasFinalNewline);
+    const docEnd = { line: Math.max(lastLine, 0), character: docLines[lastLine]?.length ?? 0 };
+    let body = newLines.join(eol) + (finalNewline && newLines.length > 0 ? eol : '');
+
+    let start = { line: startLine, character: 0 };
+    if (startLine > 0 && (!hasFinalNewline && startLine >= contentLineCount)) {
+        // Appending after a last line that has no newline yet
+        start = docEnd;
+        body = eol + body;
+    } else if (startLine > 0 && newLines.length === 0 && !finalNewline) {
+        // Everything to the end is removed and the new last line loses its newline
+        start = { line: startLine - 1, character: docLines[startLine - 1].length };
     }
-    return newContent;
+    return { start, end: docEnd, text: body };
 }
@@ -0,0 +1,38 @@
+// src/patchWriter.ts
+import { Chunk } from 'parse-diff';
+import { moveHunk } from './hunkMatcher';
+
+/* ────────────────────────────────────────────────────────── */
+/* Writing hunks back out as a unified diff                   */
+/* ────────────────────────────────────────────────────────── */
+
+/**
+ * Hunks of one file renumbered for a diff that holds only them. `starts`
+ * are the 0-based lines where each hunk's old side begins in the file now
+ * (counted like `getHunkHeaderStart`); the new side follows from the hunks
+ * before it.
+ */
+export function renumberHunks(chunks: Chunk[], starts: number[]): Chunk[] {
+  let delta = 0;
+  return chunks.map((chunk, i) => {
+    const start = starts[i];
+    const moved = moveHunk(
+      chunk,
+      chunk.oldLines === 0 ? start : start + 1,
+      chunk.newLines === 0 ? start + delta : start + delta + 1
+    );
+    delta += chunk.newLines - chunk.oldLines;
+    return moved;
+  });
+}
+
+/** One hunk as unified-diff lines: its header, then its change lines. */
+export function formatHunk(chunk: Chunk): string[] {
+  return [chunk.content, ...chunk.changes.map(c => c.content)];
+}
+
+/** A file diff with `--- a/` and `+++ b/` headers; empty when there are no hunks. */
+export function formatFileDiff(path: string, chunks: Chunk[]): string {
+  if (chunks.length === 0) {return '';}
+  return [`--- a/${path}`, `+++ b/${path}`, ...chunks.flatMap(formatHunk)].join('\n') + '\n';
+}
@@ -0,0 +1,32 @@
+// src/pathMatcher.ts
+
+/* ────────────────────────────────────────────────────────── */
+/* Paths in a diff vs. paths in the workspace                 */
+/* ────────────────────────────────────────────────────────── */
+
+function splitPath(path: string): string[] {
+  return path.split(/[\\/]+/).filter(part => part !== '' && part !== '.');
+}
+
+/**
+ * Drop `level` leading directories from a path in a diff, like
+ * `patch -p<level>`. Without a level only git's `a/` and `b/` prefixes go.
+ */
+export function stripPath(path: string, level?: number): string {
+  if (level === undefined) {
+    return path.replace(/^[ab]\//, '');
+  }
+  return splitPath(path).slice(level).join('/');
+}
+
+/** How many trailing path components two paths have in common, e.g. 2 for `x/src/a.ts` and `src/a.ts`. */
+export function countCommonSuffix(a: string, b: string): number {
+  const partsA = splitPath(a);
+  const partsB = splitPath(b);
+  let count = 0;
+  while (count < partsA.length && count < partsB.length &&
+    partsA[partsA.length - 1 - count] === partsB[partsB.length - 1 - count]) {
+    count++;
+  }
+  return count;
+}
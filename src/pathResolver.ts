@@ -0,0 +1,114 @@
+// src/pathResolver.ts
+import * as vscode from 'vscode';
+import * as nodePath from 'node:path';
+import { getStripLevel } from './config';
+import { countCommonSuffix, stripPath } from './pathMatcher';
+
+/**
+ * Finds the workspace file a path in a diff stands for. `newFile` is set for
+ * files the diff creates, which are not looked for elsewhere. Resolves to
+ * undefined when the user cancelled choosing between several files.
+ */
+export type PathResolver = (pathInDiff: string, newFile?: boolean) => Promise<vscode.Uri | undefined>;
+
+const MAX_SUFFIX_CANDIDATES = 200;
+
+/** Whether a file (or directory) is there, in any file system the workspace can read. */
+export async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The path in every workspace folder; in a multi-root workspace also without a leading folder name. */
+function getFolderCandidates(folders: readonly vscode.WorkspaceFolder[], path: string): vscode.Uri[] {
+  const candidates = folders.map(folder => vscode.Uri.joinPath(folder.uri, path));
+  if (folders.length > 1) {
+    const [first, ...rest] = path.split('/');
+    const named = folders.find(folder => folder.name === first);
+    if (named && rest.length > 0) {
+      candidates.unshift(vscode.Uri.joinPath(named.uri, ...rest));
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Workspace files whose path ends like `path`, keeping only the longest
+ * matches. Beyond a bare file name, the directory above it has to match
+ * too, so `docs/README.md` does not turn into any `README.md`.
+ */
+async function findBySuffix(path: string): Promise<vscode.Uri[]> {
+  const basename = nodePath.posix.basename(path);
+  if (!basename) {return [];}
+  const found = await vscode.workspace.findFiles(`**/${basename}`, undefined, MAX_SUFFIX_CANDIDATES);
+  const scored = found.map(uri => ({ uri, score: countCommonSuffix(vscode.workspace.asRelativePath(uri, true), path) }));
+  const best = Math.max(0, ...scored.map(candidate => candidate.score));
+  const needed = Math.min(2, path.split('/').filter(Boolean).length);
+  return best < needed ? [] : scored.filter(candidate => candidate.score === best).map(candidate => candidate.uri);
+}
+
+async function chooseFile(pathInDiff: string, candidates: vscode.Uri[], multiRoot: boolean): Promise<vscode.Uri | undefined> {
+  const items = candidates.map(uri => ({ label: vscode.workspace.asRelativePath(uri, multiRoot), uri }));
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `Several files match "${pathInDiff}". Choose the one the diff is for.`
+  });
+  return picked?.uri;
+}
+
+/** Where a file the diff creates goes: next to its existing directory if one is found, else in the first folder. */
+async function resolveNewFile(folders: readonly vscode.WorkspaceFolder[], path: string): Promise<vscode.Uri> {
+  const candidates = getFolderCandidates(folders, path);
+  for (const uri of candidates) {
+    if (await fileExists(vscode.Uri.joinPath(uri, '..'))) {return uri;}
+  }
+  return candidates[0];
+}
+
+/**
+ * Resolve paths in a diff against the workspace: the path (after removing
+ * `quickDiffApply.stripLevel` directories) is tried in every workspace
+ * folder, then matched by its last components against all workspace files.
+ * If several files fit, the user picks one. A path that matches nothing
+ * resolves to where it would be in the first folder. Each path is resolved
+ * once per resolver. Undefined (after an error message) without a folder.
+ */
+export function getWorkspaceResolver(): PathResolver | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open.');
+    return undefined;
+  }
+  const stripLevel = getStripLevel();
+  const resolved = new Map<string, Promise<vscode.Uri | undefined>>();
+
+  const resolvePath = async (pathInDiff: string, newFile: boolean): Promise<vscode.Uri | undefined> => {
+    const path = stripPath(pathInDiff, stripLevel);
+    if (newFile) {return resolveNewFile(folders, path);}
+
+    let matches: vscode.Uri[] = [];
+    for (const uri of getFolderCandidates(folders, path)) {
+      if (!matches.some(match => match.toString() === uri.toString()) && await fileExists(uri)) {
+        matches.push(uri);
+      }
+    }
+    if (matches.length === 0) {
+      matches = await findBySuffix(path);
+    }
+    if (matches.length > 1) {
+      return chooseFile(pathInDiff, matches, folders.length > 1);
+    }
+    return matches[0] ?? vscode.Uri.joinPath(folders[0].uri, path);
+  };
+
+  return (pathInDiff, newFile = false) => {
+    const key = `${newFile}\0${pathInDiff}`;
+    if (!resolved.has(key)) {
+      resolved.set(key, resolvePath(pathInDiff, newFile));
+    }
+    return resolved.get(key)!;
+  };
+}
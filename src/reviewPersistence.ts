@@ -0,0 +1,203 @@
+// src/reviewPersistence.ts
+import * as vscode from 'vscode';
+import { File } from 'parse-diff';
+import { createHash } from 'node:crypto';
+import { PatchFile } from './patchParser';
+import { PatchMessage, SeriesPatch } from './patchMessage';
+import {
+  FileReviewState,
+  PatchSeries,
+  PendingFileOperation,
+  ReviewSession,
+  activeReviewSession,
+  getFileReviewState,
+  isReviewUnfinished,
+  onDidChangeReviewSession
+} from './inlineDiffSession';
+
+const STORAGE_KEY = 'quickDiffApply.reviewSession';
+const SAVE_DELAY_MS = 500;
+
+/** An unfinished review as kept in `workspaceState`. Undo history is not kept. */
+interface SavedReview {
+  files: SavedFile[];
+  fileOperations: SavedFileOperation[];
+  message?: PatchMessage;
+  /** The `git format-patch` series the reviewed patch is part of, if it is still being followed. */
+  series?: SavedPatchSeries;
+}
+
+interface SavedFile {
+  uri: string;
+  fileDiff: File;
+  /** SHA-256 of the document text when saved; a resumed file must still match it. */
+  textHash: string;
+  state: FileReviewState;
+}
+
+interface SavedFileOperation {
+  kind: PendingFileOperation['kind'];
+  uri: string;
+  sourceUri?: string;
+  fileDiff: PatchFile;
+}
+
+interface SavedPatchSeries {
+  patches: SeriesPatch[];
+  /** Index of the patch after the reviewed one. */
+  next: number;
+  contextUri?: string;
+  sourceUri?: string;
+}
+
+/** A saved review checked against the workspace, ready for `startReview`. */
+export interface ResumableReview {
+  targets: Array<{ uri: vscode.Uri; fileDiff: File; state: FileReviewState }>;
+  fileOperations: PendingFileOperation[];
+  message?: PatchMessage;
+  series?: PatchSeries;
+  /** Files left out because they changed (or disappeared) since the review was saved. */
+  changedFiles: string[];
+}
+
+let storage: vscode.Memento | undefined;
+let saveTimer: NodeJS.Timeout | undefined;
+let getPatchSeries: () => PatchSeries | undefined = () => undefined;
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function toSavedPatchSeries(review: ReviewSession): SavedPatchSeries | undefined {
+  const series = getPatchSeries();
+  if (!series || review.series?.number !== series.next) {return undefined;}
+  return {
+    patches: series.patches,
+    next: series.next,
+    contextUri: series.contextUri?.toString(),
+    sourceUri: series.sourceUri?.toString()
+  };
+}
+
+function toSavedReview(review: ReviewSession): SavedReview {
+  return {
+    files: review.fileSessions.map(session => ({
+      uri: session.uri.toString(),
+      fileDiff: session.originalFileDiff,
+      textHash: hashText(session.document.getText()),
+      state: getFileReviewState(session)
+    })),
+    fileOperations: review.fileOperations.map(op => ({
+      kind: op.kind,
+      uri: op.uri.toString(),
+      sourceUri: op.sourceUri?.toString(),
+      fileDiff: op.fileDiff
+    })),
+    message: review.message,
+    series: toSavedPatchSeries(review)
+  };
+}
+
+/** Write the active review now, or drop the saved one when nothing is left to resume. */
+export function saveReview(): Thenable<void> {
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  if (!storage) {return Promise.resolve();}
+  const review = activeReviewSession;
+  return storage.update(STORAGE_KEY, review && isReviewUnfinished(review) ? toSavedReview(review) : undefined);
+}
+
+/**
+ * Save the active review to the workspace (debounced) whenever it changes,
+ * together with what `patchSeries` returns: the series it belongs to.
+ */
+export function registerReviewPersistence(
+  context: vscode.ExtensionContext,
+  patchSeries: () => PatchSeries | undefined
+): vscode.Disposable {
+  storage = context.workspaceState;
+  getPatchSeries = patchSeries;
+  const listener = onDidChangeReviewSession(() => {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(saveReview, SAVE_DELAY_MS);
+  });
+  return new vscode.Disposable(() => {
+    listener.dispose();
+    clearTimeout(saveTimer);
+  });
+}
+
+/**
+ * Save the review right away and stop following it, so clearing the review
+ * while the extension shuts down does not also delete the saved copy.
+ */
+export function flushReviewPersistence(): Thenable<void> {
+  const saved = saveReview();
+  storage = undefined;
+  return saved;
+}
+
+export function discardSavedReview(): Thenable<void> {
+  return storage?.update(STORAGE_KEY, undefined) ?? Promise.resolve();
+}
+
+/**
+ * Read the saved review and check every target against the workspace. A
+ * file is only resumed if its text is exactly what the review last saw.
+ */
+export async function loadSavedReview(): Promise<ResumableReview | undefined> {
+  const saved = storage?.get<SavedReview>(STORAGE_KEY);
+  if (!saved) {return undefined;}
+
+  const targets: ResumableReview['targets'] = [];
+  const changedFiles: string[] = [];
+  for (const file of saved.files) {
+    const uri = vscode.Uri.parse(file.uri);
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      if (hashText(document.getText()) === file.textHash) {
+        targets.push({ uri, fileDiff: file.fileDiff, state: file.state });
+        continue;
+      }
+    } catch {
+      // Deleted or unreadable; reported with the changed files
+    }
+    changedFiles.push(vscode.workspace.asRelativePath(uri, false));
+  }
+
+  const fileOperations = saved.fileOperations.map(op => ({
+    kind: op.kind,
+    uri: vscode.Uri.parse(op.uri),
+    sourceUri: op.sourceUri ? vscode.Uri.parse(op.sourceUri) : undefined,
+    fileDiff: op.fileDiff
+  }));
+  const series = saved.series && {
+    patches: saved.series.patches,
+    next: saved.series.next,
+    contextUri: saved.series.contextUri ? vscode.Uri.parse(saved.series.contextUri) : undefined,
+    sourceUri: saved.series.sourceUri ? vscode.Uri.parse(saved.series.sourceUri) : undefined
+  };
+  return { targets, fileOperations, message: saved.message, series, changedFiles };
+}
+
+/** On startup: if an earlier window left a review unfinished, offer to pick it up again. */
+export async function offerToResumeReview() {
+  const saved = storage?.get<SavedReview>(STORAGE_KEY);
+  if (!saved || activeReviewSession) {return;}
+
+  const hunksLeft = saved.files.reduce(
+    (count, file) => count + file.fileDiff.chunks.length - file.state.applied.length - file.state.skipped.length,
+    0
+  );
+  const seriesLeft = saved.series ? `, followed by ${saved.series.patches.length - saved.series.next} more patch(es) of its series` : '';
+  const choice = await vscode.window.showInformationMessage(
+    `An unfinished patch review was found (${saved.files.length} file(s), ${hunksLeft} hunk(s) and ` +
+    `${saved.fileOperations.length} file operation(s) left${seriesLeft}). Resume it?`,
+    'Resume', 'Discard'
+  );
+  if (choice === 'Resume') {
+    await vscode.commands.executeCommand('quick-diff-apply.resumeReview');
+  } else if (choice === 'Discard') {
+    await discardSavedReview();
+  }
+}
@@ -0,0 +1,172 @@
+// src/reviewTreeView.ts
+import * as vscode from 'vscode';
+import * as nodePath from 'node:path';
+import { getHunkChanges } from './hunkMatcher';
+import {
+  InlineDiffSession,
+  PendingFileOperation,
+  ReviewSession,
+  activeReviewSession,
+  clearActiveReviewSession,
+  getHunkConflict,
+  getHunkState,
+  isHunkInvalidated,
+  onDidChangeReviewSession,
+  revealHunk
+} from './inlineDiffSession';
+
+type HunkStatus = 'pending' | 'applied' | 'skipped' | 'conflict' | 'edited' | 'discarded';
+
+/** Patch → files (and whole-file operations) → hunks. */
+type ReviewNode =
+  | { kind: 'patch'; review: ReviewSession }
+  | { kind: 'file'; session: InlineDiffSession; finished: boolean }
+  | { kind: 'fileOperation'; operation: PendingFileOperation }
+  | { kind: 'hunk'; session: InlineDiffSession; hunkIndex: number; finished: boolean };
+
+type HunkNode = Extract<ReviewNode, { kind: 'hunk' }>;
+
+const hunkStatusIcons: Record<HunkStatus, vscode.ThemeIcon> = {
+  pending: new vscode.ThemeIcon('circle-large-outline'),
+  applied: new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed')),
+  skipped: new vscode.ThemeIcon('circle-slash'),
+  conflict: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+  edited: new vscode.ThemeIcon('edit', new vscode.ThemeColor('list.warningForeground')),
+  discarded: new vscode.ThemeIcon('discard')
+};
+
+const fileOperationLabels: Record<PendingFileOperation['kind'], { verb: string; icon: string }> = {
+  create: { verb: 'Create', icon: 'new-file' },
+  delete: { verb: 'Delete', icon: 'trash' },
+  rename: { verb: 'Rename to', icon: 'arrow-right' },
+  copy: { verb: 'Copy to', icon: 'copy' },
+  mode: { verb: 'Change mode of', icon: 'gear' }
+};
+
+/** A hunk's state as the tree shows it; pending hunks of finished files were discarded. */
+function getHunkStatus(session: InlineDiffSession, hunkIndex: number, finished: boolean): HunkStatus {
+  const state = getHunkState(session, hunkIndex);
+  if (state !== 'pending') {return state;}
+  if (finished) {return 'discarded';}
+  if (isHunkInvalidated(session, hunkIndex)) {return 'edited';}
+  return getHunkConflict(session, hunkIndex) ? 'conflict' : 'pending';
+}
+
+function countDecided(session: InlineDiffSession): number {
+  return session.appliedHunkIndices.size + session.skippedHunkIndices.size;
+}
+
+export class ReviewTreeDataProvider implements vscode.TreeDataProvider<ReviewNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getChildren(node?: ReviewNode): ReviewNode[] {
+    const review = activeReviewSession;
+    if (!review) {return [];}
+
+    if (!node) {
+      return [{ kind: 'patch', review }];
+    }
+    if (node.kind === 'patch') {
+      const files: ReviewNode[] = [
+        ...review.fileSessions.map(session => ({ kind: 'file' as const, session, finished: false })),
+        ...review.finishedSessions.map(session => ({ kind: 'file' as const, session, finished: true }))
+      ].sort((a, b) => a.session.fileNumber - b.session.fileNumber);
+      const operations: ReviewNode[] = review.fileOperations.map(operation => ({ kind: 'fileOperation', operation }));
+      return [...files, ...operations];
+    }
+    if (node.kind === 'file') {
+      return node.session.originalFileDiff.chunks.map((_, hunkIndex) => ({
+        kind: 'hunk',
+        session: node.session,
+        hunkIndex,
+        finished: node.finished
+      }));
+    }
+    return [];
+  }
+
+  getTreeItem(node: ReviewNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'patch': {
+        const sessions = [...node.review.fileSessions, ...node.review.finishedSessions];
+        const total = sessions.reduce((n, s) => n + s.originalFileDiff.chunks.length, 0);
+        const decided = sessions.reduce((n, s) => n + countDecided(s), 0);
+        const { message, series } = node.review;
+        const label = `Patch${series ? ` ${series.number}/${series.total}` : ''}${message ? `: ${message.subject}` : ''}`;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = `${sessions.length} file(s) · ${decided}/${total} hunks decided`;
+        item.tooltip = message?.author && `${message.subject}\nAuthor: ${message.author}`;
+        item.iconPath = new vscode.ThemeIcon('diff');
+        item.contextValue = 'patch';
+        return item;
+      }
+      case 'file': {
+        const { session, finished } = node;
+        const relativePath = vscode.workspace.asRelativePath(session.uri, false);
+        const item = new vscode.TreeItem(
+          nodePath.basename(session.uri.fsPath),
+          finished ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+        );
+        const directory = nodePath.dirname(relativePath);
+        const progress = `${countDecided(session)}/${session.originalFileDiff.chunks.length}`;
+        item.description = `${directory === '.' ? '' : directory + ' · '}${finished ? 'done' : progress}`;
+        item.resourceUri = session.uri;
+        item.tooltip = relativePath;
+        item.contextValue = finished ? 'file-finished' : 'file';
+        return item;
+      }
+      case 'fileOperation': {
+        const { operation } = node;
+        const { verb, icon } = fileOperationLabels[operation.kind];
+        const item = new vscode.TreeItem(`${verb} ${vscode.workspace.asRelativePath(operation.uri, false)}`);
+        item.description = 'confirmed at the end';
+        item.iconPath = new vscode.ThemeIcon(icon);
+        item.contextValue = 'fileOperation';
+        return item;
+      }
+      case 'hunk': {
+        const { session, hunkIndex, finished } = node;
+        const chunk = session.originalFileDiff.chunks[hunkIndex];
+        const changes = getHunkChanges(chunk);
+        const added = changes.filter(c => c.type === 'add').length;
+        const removed = changes.filter(c => c.type === 'del').length;
+        const status = getHunkStatus(session, hunkIndex, finished);
+
+        const item = new vscode.TreeItem(`@@ -${chunk.oldStart},${chunk.oldLines} +${chunk.newStart},${chunk.newLines} @@`);
+        item.description = `+${added} −${removed} · ${status}`;
+        item.tooltip = `Hunk ${hunkIndex + 1}: ${chunk.content}`;
+        item.iconPath = hunkStatusIcons[status];
+        item.contextValue = `hunk-${status}`;
+        item.command = {
+          title: 'Reveal Hunk',
+          command: 'quick-diff-apply.revealHunkInEditor',
+          arguments: [node]
+        };
+        return item;
+      }
+    }
+  }
+}
+
+/** The "Quick Diff Apply" review view and the actions on its items. */
+export function registerReviewTreeView(): vscode.Disposable {
+  const provider = new ReviewTreeDataProvider();
+  const treeView = vscode.window.createTreeView('quickDiffApply.review', { treeDataProvider: provider });
+
+  return vscode.Disposable.from(
+    treeView,
+    onDidChangeReviewSession(() => provider.refresh()),
+    vscode.commands.registerCommand('quick-diff-apply.applyHunkFromTree', (node: HunkNode) =>
+      vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', node.session.uri, node.hunkIndex)),
+    vscode.commands.registerCommand('quick-diff-apply.rejectHunkFromTree', (node: HunkNode) =>
+      vscode.commands.executeCommand('quick-diff-apply.skipHunk', node.session.uri, node.hunkIndex)),
+    vscode.commands.registerCommand('quick-diff-apply.revealHunkInEditor', (node: HunkNode) =>
+      revealHunk(node.session, node.hunkIndex)),
+    vscode.commands.registerCommand('quick-diff-apply.closeReview', () => clearActiveReviewSession())
+  );
+}
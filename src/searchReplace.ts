@@ -0,0 +1,168 @@
+// src/searchReplace.ts
+import { Change, Chunk } from 'parse-diff';
+import { PatchFile } from './patchParser';
+import { buildReplacementHunk } from './hunkMatcher';
+
+/* ────────────────────────────────────────────────────────── */
+/* SEARCH/REPLACE edit blocks, as many AI tools write them    */
+/* ────────────────────────────────────────────────────────── */
+
+/** One `<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE` block. */
+export interface SearchReplaceBlock {
+  /** 1-based position of the block in the text, for messages. */
+  number: number;
+  /** File named on the line before the block (or before an earlier block); undefined if none was. */
+  path?: string;
+  search: string[];
+  replace: string[];
+}
+
+/** Why a block could not be turned into a hunk. */
+export type SearchReplaceProblem =
+  | { block: SearchReplaceBlock; reason: 'notFound' }
+  | { block: SearchReplaceBlock; reason: 'ambiguous'; lines: number[] }
+  | { block: SearchReplaceBlock; reason: 'overlap'; other: SearchReplaceBlock }
+  | { block: SearchReplaceBlock; reason: 'emptySearch' };
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+export function isSearchReplaceText(text: string): boolean {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  return lines.some(line => SEARCH_MARKER.test(line)) && lines.some(line => REPLACE_MARKER.test(line));
+}
+
+/**
+ * The file path written before a block: the closest non-blank line above
+ * it, skipping a code fence opener, with Markdown decoration removed.
+ */
+function findPathAbove(lines: string[], markerLine: number): string | undefined {
+  let i = markerLine - 1;
+  while (i >= 0 && (lines[i].trim() === '' || FENCE.test(lines[i].trim()))) {i--;}
+  if (i < 0) {return undefined;}
+  const candidate = lines[i].trim().replace(/^[*`#\s]+|[*`:\s]+$/g, '');
+  return /^[\w.\-/\\]+$/.test(candidate) && /[./\\]/.test(candidate) ? candidate : undefined;
+}
+
+/** Every block in the text, in order. A block without a path line is for the file of the block before it. */
+export function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: SearchReplaceBlock[] = [];
+  let path: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!SEARCH_MARKER.test(lines[i].trim())) {continue;}
+    const divider = lines.findIndex((line, j) => j > i && DIVIDER.test(line.trim()));
+    const end = divider < 0 ? -1 : lines.findIndex((line, j) => j > divider && REPLACE_MARKER.test(line.trim()));
+    if (end < 0) {break;}
+
+    path = findPathAbove(lines, i) ?? path;
+    blocks.push({
+      number: blocks.length + 1,
+      path,
+      search: lines.slice(i + 1, divider),
+      replace: lines.slice(divider + 1, end)
+    });
+    i = end;
+  }
+  return blocks;
+}
+
+function findOccurrences(lines: string[], needle: string[]): number[] {
+  const found: number[] = [];
+  for (let at = 0; at + needle.length <= lines.length; at++) {
+    if (needle.every((line, i) => lines[at + i] === line)) {found.push(at);}
+  }
+  return found;
+}
+
+/**
+ * Turn one file's blocks into a file diff against `lines`, the file's
+ * current text. A block becomes a hunk only if its SEARCH text occurs
+ * exactly once and does not overlap another block; the rest are returned
+ * as problems. Blocks that change nothing are dropped.
+ */
+export function searchReplaceToFileDiff(
+  lines: string[],
+  blocks: SearchReplaceBlock[],
+  path?: string
+): { fileDiff: PatchFile; problems: SearchReplaceProblem[] } {
+  const problems: SearchReplaceProblem[] = [];
+  const placed: Array<{ block: SearchReplaceBlock; at: number }> = [];
+
+  for (const block of blocks) {
+    if (block.search.length === 0) {
+      problems.push({ block, reason: 'emptySearch' });
+      continue;
+    }
+    if (block.search.join('\n') === block.replace.join('\n')) {continue;}
+    const found = findOccurrences(lines, block.search);
+    if (found.length === 0) {
+      problems.push({ block, reason: 'notFound' });
+    } else if (found.length > 1) {
+      problems.push({ block, reason: 'ambiguous', lines: found });
+    } else {
+      placed.push({ block, at: found[0] });
+    }
+  }
+
+  placed.sort((a, b) => a.at - b.at);
+  const chunks: Chunk[] = [];
+  let lineDelta = 0;
+  let previous: { block: SearchReplaceBlock; at: number } | undefined;
+  for (const entry of placed) {
+    if (previous && entry.at < previous.at + previous.block.search.length) {
+      problems.push({ block: entry.block, reason: 'overlap', other: previous.block });
+      continue;
+    }
+    chunks.push(buildReplacementHunk(entry.block.search, entry.block.replace, entry.at, entry.at + 1 + lineDelta));
+    lineDelta += entry.block.replace.length - entry.block.search.length;
+    previous = entry;
+  }
+
+  const count = (type: Change['type']) =>
+    chunks.reduce((n, chunk) => n + chunk.changes.filter(c => c.type === type).length, 0);
+  problems.sort((a, b) => a.block.number - b.block.number);
+  return {
+    fileDiff: { from: path, to: path, chunks, additions: count('add'), deletions: count('del') },
+    problems
+  };
+}
+
+/** A new file holding the REPLACE text of blocks with an empty SEARCH. */
+export function searchReplaceToNewFile(blocks: SearchReplaceBlock[], path: string): PatchFile {
+  const content = blocks.flatMap(block => block.replace);
+  return {
+    from: '/dev/null',
+    to: path,
+    new: true,
+    chunks: [{
+      content: `@@ -0,0 +1,${content.length} @@`,
+      changes: content.map((line, i) => ({ type: 'add', add: true, ln: i + 1, content: '+' + line })),
+      oldStart: 0,
+      oldLines: 0,
+      newStart: 1,
+      newLines: content.length
+    }],
+    additions: content.length,
+    deletions: 0
+  };
+}
+
+/** e.g. `block 3 (src/app.ts): SEARCH text found 2 times (lines 4, 20)` */
+export function describeSearchReplaceProblem(problem: SearchReplaceProblem): string {
+  const { block } = problem;
+  const where = `block ${block.number}${block.path ? ` (${block.path})` : ''}`;
+  switch (problem.reason) {
+    case 'notFound':
+      return `${where}: SEARCH text not found`;
+    case 'ambiguous':
+      return `${where}: SEARCH text found ${problem.lines.length} times (lines ${problem.lines.map(l => l + 1).join(', ')})`;
+    case 'overlap':
+      return `${where}: changes the same lines as block ${problem.other.number}`;
+    case 'emptySearch':
+      return `${where}: empty SEARCH text, but the file already exists`;
+  }
+}
@@ -4,10 +4,79 @@ import * as fs     from 'fs';
 import * as path   from 'path';
 import * as vscode from 'vscode';
 import * as os     from 'os'; // Added import for os module
+import { execFileSync } from 'child_process';
 
-import { applyPatchToContent, applySelectedHunksToContent } from '../../extension';
+import {
+  applyPatchToContent, applySelectedHunksToContent, locateHunk, looksAlreadyApplied, placeUnnumberedHunks, replaceHunkPostimage, reverseHunk, selectHunkLines,
+  splitHunk, HunkConflictError, parsePatch, reversePatchFile, extractDiffBlocks, checkHunksAgainstContent, formatCheckReport,
+  formatFileDiff, renumberHunks, mergeHunk, parsePatchMessage, splitPatchSeries, stripPath,
+  countCommonSuffix, mergeDiffBlocks, parseSearchReplaceBlocks, searchReplaceToFileDiff, saveReview,
+  ReviewTreeDataProvider
+} from '../../extension';
 
 describe('Quick Diff Apply – Unit & Integration Tests', () => {
+  /** `git format-patch --stdout` output of commits that each change the first line of greeting.txt. */
+  function formatPatchSeries(commits: Array<[subject: string, before: string, after: string]>): string {
+    return commits.map(([subject, before, after], i) => [
+      `From ${String(i + 1).repeat(40)} Mon Sep 17 00:00:00 2001`,
+      'From: A U Thor <author@example.com>',
+      'Date: Mon, 19 Oct 2026 12:00:00 +0000',
+      `Subject: [PATCH ${i + 1}/${commits.length}] ${subject}`,
+      '',
+      '---',
+      ' greeting.txt | 2 +-',
+      '',
+      'diff --git a/greeting.txt b/greeting.txt',
+      '--- a/greeting.txt',
+      '+++ b/greeting.txt',
+      '@@ -1,2 +1,2 @@',
+      `-${before}`,
+      `+${after}`,
+      ' world',
+      '-- ',
+      '2.43.0',
+      ''
+    ].join('\n')).join('\n');
+  }
+
+  /**
+   * Run `fn` with a new temporary directory holding `files` (paths relative
+   * to it) as the only workspace folder. The directory is removed afterwards.
+   */
+  async function withTempWorkspace(files: Record<string, string>, fn: (root: string) => Promise<void>): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'quickpatch-'));
+    try {
+      for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+      }
+      await vscode.workspace.updateWorkspaceFolders(0, vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders.length : 0, {
+        uri: vscode.Uri.file(root)
+      });
+      await fn(root);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run `fn` while `vscode.window[name]` answers every message with what
+   * `respond` returns, instead of waiting for a click.
+   */
+  async function withMessageResponse(
+    name: 'showInformationMessage' | 'showWarningMessage',
+    respond: (message: string) => Promise<string | undefined> | string | undefined,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    const original = vscode.window[name];
+    (vscode.window as any)[name] = async (message: string) => respond(message);
+    try {
+      await fn();
+    } finally {
+      (vscode.window as any)[name] = original;
+    }
+  }
+
   /* ────────── unit tests ────────── */
   describe('Pure-function tests', () => {
     it('applyPatchToContent: single-hunk replace', () => {
@@ -41,6 +110,444 @@ describe('Quick Diff Apply – Unit & Integration Tests', () => {
       const result = applySelectedHunksToContent(original, allHunks, [0]);
       assert.strictEqual(result, 'line1\nbar\nline3\n');
     });
+
+    it('locateHunk: finds drifted hunk at the closest offset', () => {
+      const chunk = {
+        oldStart: 1, oldLines: 3,
+        newStart: 1, newLines: 3,
+        changes: [
+          { type: 'normal', content: ' a' },
+          { type: 'del',    content: '-b' },
+          { type: 'add',    content: '+B' },
+          { type: 'normal', content: ' c' }
+        ]
+      } as any;
+      const placement = locateHunk(['x', 'x', 'a', 'b', 'c', 'a', 'b', 'c'], chunk, 0, { fuzzFactor: 0 });
+      assert.deepStrictEqual(placement, { line: 2, offset: 2, fuzz: 0, leadingTrimmed: 0, trailingTrimmed: 0 });
+    });
+
+    it('locateHunk: trims context lines when fuzz is allowed', () => {
+      const chunk = {
+        oldStart: 1, oldLines: 3,
+        newStart: 1, newLines: 3,
+        changes: [
+          { type: 'normal', content: ' a' },
+          { type: 'del',    content: '-b' },
+          { type: 'add',    content: '+B' },
+          { type: 'normal', content: ' c' }
+        ]
+      } as any;
+      const lines = ['A', 'b', 'C'];
+      assert.strictEqual(locateHunk(lines, chunk, 0, { fuzzFactor: 0 }), undefined);
+      const placement = locateHunk(lines, chunk, 0, { fuzzFactor: 1 });
+      assert.strictEqual(placement?.fuzz, 1);
+      assert.strictEqual(placement?.line, 0);
+    });
+
+    it('applyPatchToContent: ignores whitespace and re-indents added lines', () => {
+      const fileDiff = parsePatch([
+        '--- a/f.py',
+        '+++ b/f.py',
+        '@@ -1,4 +1,5 @@',
+        ' def f():',
+        '     if x:',
+        '-        return 1',
+        '+        log(x)',
+        '+        return 2',
+        '     return 0',
+        ''
+      ].join('\n'))[0];
+      const tabbed = 'def f():\n\tif x:\n\t\treturn 1\n\treturn 0\n';
+      assert.throws(() => applyPatchToContent(tabbed, fileDiff, { fuzzFactor: 0 }), HunkConflictError);
+      assert.strictEqual(
+        applyPatchToContent(tabbed, fileDiff, { fuzzFactor: 0, ignoreWhitespace: 'change', tabSize: 4 }),
+        'def f():\n\tif x:\n\t\tlog(x)\n\t\treturn 2\n\treturn 0\n'
+      );
+      const nested = 'class A:\n  def f():\n      if  x:\n          return 1\n      return 0\n';
+      assert.strictEqual(
+        applyPatchToContent(nested, fileDiff, { fuzzFactor: 0, ignoreWhitespace: 'change' }),
+        'class A:\n  def f():\n      if  x:\n          log(x)\n          return 2\n      return 0\n'
+      );
+      assert.strictEqual(locateHunk(['def f():', '    if x :', '        return 1', '    return 0'], fileDiff.chunks[0], 0, { fuzzFactor: 0, ignoreWhitespace: 'change' }), undefined);
+      assert.strictEqual(locateHunk(['def f():', '    if x :', '        return 1', '    return 0'], fileDiff.chunks[0], 0, { fuzzFactor: 0, ignoreWhitespace: 'all' })?.line, 0);
+    });
+
+    it('applyPatchToContent: reports a stale hunk instead of overwriting', () => {
+      const original = 'a\nx\nc\n';
+      const fileDiff = {
+        chunks: [{
+          oldStart: 2, oldLines: 1,
+          newStart: 2, newLines: 1,
+          changes: [
+            { type: 'del',    content: '-b' },
+            { type: 'add',    content: '+B' }
+          ]
+        }]
+      } as any;
+      assert.throws(
+        () => applyPatchToContent(original, fileDiff),
+        (e: unknown) => e instanceof HunkConflictError &&
+          e.mismatch.line === 1 && e.mismatch.expected === 'b' && e.mismatch.actual === 'x'
+      );
+    });
+
+    it('applyPatchToContent: replaces only the lines in the hunk, not its header count', () => {
+      const fileDiff = {
+        chunks: [{
+          oldStart: 1, oldLines: 4,
+          newStart: 1, newLines: 4,
+          changes: [
+            { type: 'normal', content: ' a' },
+            { type: 'del',    content: '-b' },
+            { type: 'add',    content: '+B' },
+            { type: 'normal', content: ' c' }
+          ]
+        }]
+      } as any;
+      assert.strictEqual(applyPatchToContent('a\nb\nc\nd\ne\n', fileDiff), 'a\nB\nc\nd\ne\n');
+    });
+
+    it('reverseHunk: undoes the hunk it was built from', () => {
+      const fileDiff = {
+        chunks: [{
+          oldStart: 1, oldLines: 3,
+          newStart: 1, newLines: 4,
+          changes: [
+            { type: 'normal', content: ' a' },
+            { type: 'del',    content: '-b' },
+            { type: 'add',    content: '+B' },
+            { type: 'add',    content: '+B2' },
+            { type: 'normal', content: ' c' }
+          ]
+        }]
+      } as any;
+      const patched = applyPatchToContent('a\nb\nc\n', fileDiff);
+      assert.strictEqual(patched, 'a\nB\nB2\nc\n');
+      const reversed = { chunks: fileDiff.chunks.map(reverseHunk) } as any;
+      assert.strictEqual(applyPatchToContent(patched, reversed), 'a\nb\nc\n');
+    });
+
+    it('applyPatchToContent: keeps CRLF line endings', () => {
+      const original = 'a\r\nb\r\nc\r\n';
+      const fileDiff = {
+        chunks: [{
+          oldStart: 2, oldLines: 1,
+          newStart: 2, newLines: 2,
+          changes: [
+            { type: 'del',    content: '-b' },
+            { type: 'add',    content: '+B' },
+            { type: 'add',    content: '+B2' }
+          ]
+        }]
+      } as any;
+      assert.strictEqual(applyPatchToContent(original, fileDiff), 'a\r\nB\r\nB2\r\nc\r\n');
+    });
+
+    it('applyPatchToContent: honors "No newline at end of file" markers', () => {
+      const fileDiff = {
+        chunks: [{
+          oldStart: 2, oldLines: 1,
+          newStart: 2, newLines: 1,
+          changes: [
+            { type: 'del',    content: '-b' },
+            { type: 'del',    content: '\\ No newline at end of file' },
+            { type: 'add',    content: '+B' }
+          ]
+        }]
+      } as any;
+      assert.strictEqual(applyPatchToContent('a\nb', fileDiff), 'a\nB\n');
+    });
+
+    it('parsePatch: reads git rename, copy, mode and binary headers', () => {
+      const files = parsePatch([
+        'diff --git a/old.txt b/new.txt',
+        'similarity index 90%',
+        'rename from old.txt',
+        'rename to new.txt',
+        '--- a/old.txt',
+        '+++ b/new.txt',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '+B',
+        'diff --git a/c.txt b/c2.txt',
+        'similarity index 100%',
+        'copy from c.txt',
+        'copy to c2.txt',
+        'diff --git a/run.sh b/run.sh',
+        'old mode 100644',
+        'new mode 100755',
+        'diff --git a/img.png b/img.png',
+        'index 1234567..89abcde 100644',
+        'Binary files a/img.png and b/img.png differ',
+        ''
+      ].join('\n'));
+
+      assert.strictEqual(files.length, 4);
+      assert.deepStrictEqual(
+        [files[0].renameFrom, files[0].renameTo, files[0].similarity, files[0].chunks.length],
+        ['old.txt', 'new.txt', 90, 1]
+      );
+      assert.deepStrictEqual([files[1].copyFrom, files[1].copyTo], ['c.txt', 'c2.txt']);
+      assert.deepStrictEqual([files[2].oldMode, files[2].newMode], ['100644', '100755']);
+      assert.strictEqual(files[3].binary, true);
+    });
+
+    it('reversePatchFile: swaps the sides and turns new files into deletions', () => {
+      const [modified, created] = parsePatch([
+        'diff --git a/a.txt b/a.txt', '--- a/a.txt', '+++ b/a.txt', '@@ -1,3 +1,3 @@', ' one', '-two', '+TWO', ' three',
+        'diff --git a/n.txt b/n.txt', 'new file mode 100644', '--- /dev/null', '+++ b/n.txt', '@@ -0,0 +1,1 @@', '+x',
+        ''
+      ].join('\n'));
+      assert.strictEqual(applyPatchToContent('one\nTWO\nthree\n', reversePatchFile(modified)), 'one\ntwo\nthree\n');
+      const deletion = reversePatchFile(created);
+      assert.ok(deletion.deleted && !deletion.new);
+      assert.deepStrictEqual([deletion.from, deletion.to], ['n.txt', '/dev/null']);
+
+      assert.ok(looksAlreadyApplied(['one', 'TWO', 'three'], modified.chunks));
+      assert.ok(!looksAlreadyApplied(['one', 'two', 'three'], modified.chunks));
+    });
+
+    it('parsePatch (lenient): recounts hunks and places unnumbered ones by search', () => {
+      const diff = [
+        '@@ ... @@',
+        ' function f() {',
+        '-  return 1;',
+        '+  return 2;',
+        ' }',
+        '@@ -40,9 +40,9 @@',     // wrong line numbers and sizes
+        ' g();',
+        '-h();',
+        '+H();',
+        '@@',
+        ' g();',
+        '-h();',
+        '+i();',
+        ''
+      ].join('\n');
+      const [file] = parsePatch(diff, { lenient: true });
+      assert.strictEqual(file.headerless, true);
+      assert.deepStrictEqual(file.unnumberedHunks, [0, 2]);
+      assert.deepStrictEqual(file.chunks.map(c => [c.oldLines, c.newLines]), [[3, 3], [2, 2], [2, 2]]);
+
+      const target = 'x\nfunction f() {\n  return 1;\n}\ng();\nh();\ng();\nh();\n';
+      const chunks = placeUnnumberedHunks(target.split('\n'), file.chunks, file.unnumberedHunks!);
+      assert.deepStrictEqual(chunks.map(c => c.oldStart), [2, 40, 7]);
+      assert.strictEqual(
+        applyPatchToContent(target, { chunks: [chunks[0], chunks[2]] } as any),
+        'x\nfunction f() {\n  return 2;\n}\ng();\nh();\ng();\ni();\n'
+      );
+      // Strict parsing drops the first hunk and folds the bare `@@` one into the miscounted one
+      assert.strictEqual(parsePatch(diff)[0].chunks.length, 1);
+    });
+
+    it('extractDiffBlocks: finds fenced and indented diffs between prose', () => {
+      const text = [
+        'Here is the fix:',
+        '',
+        '```diff',
+        '--- a/x.txt',
+        '+++ b/x.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '',                 // blank context line whose space was stripped
+        '-two',
+        '+TWO',
+        '```',
+        '',
+        '1. Then update y:',
+        '',
+        '    --- a/y.txt',
+        '    +++ b/y.txt',
+        '    @@ -5,2 +5,2 @@',
+        '    -five',
+        '    +FIVE',
+        '     six',
+        '',
+        '- a list item, not a deletion',
+        ''
+      ].join('\n');
+
+      const blocks = extractDiffBlocks(text);
+      assert.deepStrictEqual(blocks.map(b => [b.fenced, b.files]), [[true, ['x.txt']], [false, ['y.txt']]]);
+      assert.ok(blocks.every(b => b.conflictsWith.length === 0));
+
+      const files = parsePatch(mergeDiffBlocks(blocks));
+      assert.strictEqual(files.length, 2);
+      assert.strictEqual(applyPatchToContent('one\n\ntwo\n', files[0]), 'one\n\nTWO\n');
+      assert.deepStrictEqual(files[1].chunks[0].changes.map(c => c.content), ['-five', '+FIVE', ' six']);
+    });
+
+    it('searchReplaceToFileDiff: turns blocks into hunks and reports the ones it cannot place', () => {
+      const text = [
+        'src/app.js',
+        '```js',
+        '<<<<<<< SEARCH',
+        'function greet() {',
+        '  return "hi";',
+        '}',
+        '=======',
+        'function greet() {',
+        '  return "hello";',
+        '}',
+        '>>>>>>> REPLACE',
+        '```',
+        '<<<<<<< SEARCH',
+        'missing();',
+        '=======',
+        'found();',
+        '>>>>>>> REPLACE',
+        '<<<<<<< SEARCH',
+        'twice();',
+        '=======',
+        'once();',
+        '>>>>>>> REPLACE',
+        ''
+      ].join('\n');
+      const blocks = parseSearchReplaceBlocks(text);
+      assert.deepStrictEqual(blocks.map(b => b.path), ['src/app.js', 'src/app.js', 'src/app.js']);
+
+      const target = 'start\nfunction greet() {\n  return "hi";\n}\ntwice();\ntwice();\n';
+      const { fileDiff, problems } = searchReplaceToFileDiff(target.split('\n'), blocks, 'src/app.js');
+      assert.deepStrictEqual(
+        fileDiff.chunks[0].changes.map(c => c.content),
+        [' function greet() {', '-  return "hi";', '+  return "hello";', ' }']
+      );
+      assert.strictEqual(applyPatchToContent(target, fileDiff), target.replace('"hi"', '"hello"'));
+      assert.deepStrictEqual(problems.map(p => [p.block.number, p.reason]), [[2, 'notFound'], [3, 'ambiguous']]);
+    });
+
+    it('selectHunkLines: keeps unchosen deletions and drops unchosen additions', () => {
+      const [fileDiff] = parsePatch(['--- a/x.txt', '+++ b/x.txt', '@@ -1,4 +1,4 @@', ' a', '-b', '-c', '+B', '+C', ' d', ''].join('\n'));
+      const partial = selectHunkLines(fileDiff.chunks[0], [1, 3]);
+      assert.strictEqual(partial.content, '@@ -1,4 +1,4 @@');
+      assert.strictEqual(applyPatchToContent('a\nb\nc\nd\n', { ...fileDiff, chunks: [partial] }), 'a\nB\nc\nd\n');
+      const onlyAdditions = selectHunkLines(fileDiff.chunks[0], [3, 4]);
+      assert.strictEqual(applyPatchToContent('a\nb\nc\nd\n', { ...fileDiff, chunks: [onlyAdditions] }), 'a\nb\nc\nB\nC\nd\n');
+    });
+
+    it('splitHunk: cuts a hunk at the context between its changes', () => {
+      const [fileDiff] = parsePatch([
+        '--- a/x.txt', '+++ b/x.txt', '@@ -1,6 +1,6 @@', ' a', '-b', '+B', '+B2', ' c', ' d', '-e', ' f', ''
+      ].join('\n'));
+      const pieces = splitHunk(fileDiff.chunks[0]);
+      assert.deepStrictEqual(pieces.map(p => p.content), ['@@ -1,4 +1,5 @@', '@@ -3,4 +4,3 @@']);
+      const original = 'a\nb\nc\nd\ne\nf\n';
+      assert.strictEqual(applySelectedHunksToContent(original, pieces, [1]), 'a\nb\nc\nd\nf\n');
+      assert.strictEqual(applySelectedHunksToContent(original, pieces, [0, 1]), applyPatchToContent(original, fileDiff));
+      assert.strictEqual(splitHunk(pieces[0])[0], pieces[0]);
+    });
+
+    it('replaceHunkPostimage: edits the added lines and recounts the hunk', () => {
+      const [fileDiff] = parsePatch([
+        '--- a/x.txt', '+++ b/x.txt', '@@ -1,4 +1,4 @@', ' a', '-b', '+B', ' c', ' d', '\\ No newline at end of file', ''
+      ].join('\n'));
+      const edited = replaceHunkPostimage(fileDiff.chunks[0], ['a', 'Bee', 'bee2', 'c', 'd']);
+      assert.strictEqual(edited.content, '@@ -1,4 +1,5 @@');
+      assert.strictEqual(edited.newLines, 5);
+      assert.deepStrictEqual(edited.changes.map(c => c.content), [' a', '-b', '+Bee', '+bee2', ' c', ' d', '\\ No newline at end of file']);
+      assert.strictEqual(applyPatchToContent('a\nb\nc\nd', { ...fileDiff, chunks: [edited] }), 'a\nBee\nbee2\nc\nd');
+    });
+
+    it('checkHunksAgainstContent: reports every hunk without stopping at a conflict', () => {
+      const [fileDiff] = parsePatch([
+        '--- a/x.txt', '+++ b/x.txt',
+        '@@ -1,2 +1,2 @@', ' a', '-b', '+B',
+        '@@ -4,2 +4,2 @@', ' d', '-e', '+E',
+        '@@ -6,2 +6,2 @@', ' f', '-g', '+G',
+        ''
+      ].join('\n'));
+      const checks = checkHunksAgainstContent('top\na\nb\nc\nd\nX\nf\ng\n', fileDiff.chunks);
+      assert.deepStrictEqual(checks.map(c => c.placement?.offset), [1, undefined, 0]);
+      assert.strictEqual(checks[1].mismatch?.expected, 'e');
+
+      const report = formatCheckReport([
+        { path: 'x.txt', action: 'modify', chunks: fileDiff.chunks, checks },
+        { path: 'gone.txt', action: 'modify', problem: 'missing', chunks: fileDiff.chunks.slice(0, 1), checks: [] }
+      ]);
+      assert.ok(report.includes('hunk 1 @@ -1,2 +1,2 @@: applies (offset +1)'));
+      assert.ok(report.includes('gone.txt (modify): file not found'));
+      assert.ok(report.includes('Hunks: 4 — 1 clean, 1 at an offset, 0 with fuzz, 1 conflicting, 1 not applied'));
+    });
+
+    it('renumberHunks + formatFileDiff: remaining hunks form a diff for the current text', () => {
+      const original = Array.from({ length: 20 }, (_, i) => `l${i + 1}`).join('\n') + '\n';
+      const [fileDiff] = parsePatch([
+        '--- a/x.txt', '+++ b/x.txt',
+        '@@ -2,1 +2,2 @@', ' l2', '+new',
+        '@@ -10,2 +11,1 @@', ' l10', '-l11',
+        '@@ -15,0 +15,1 @@', '+ins',
+        ''
+      ].join('\n'));
+      const current = applySelectedHunksToContent(original, fileDiff.chunks, [0]);
+      // where hunks 2 and 3 start in the current text: one line further down
+      const remaining = renumberHunks(fileDiff.chunks.slice(1), [10, 16]);
+      const text = formatFileDiff('x.txt', remaining);
+      assert.strictEqual(text, '--- a/x.txt\n+++ b/x.txt\n@@ -11,2 +11,1 @@\n l10\n-l11\n@@ -16,0 +16,1 @@\n+ins\n');
+      assert.strictEqual(applyPatchToContent(current, parsePatch(text)[0]), applyPatchToContent(original, fileDiff));
+    });
+
+    it('mergeHunk: takes one-sided changes and marks the ones made on both sides', () => {
+      const [fileDiff] = parsePatch('--- a/x.txt\n+++ b/x.txt\n@@ -1,4 +1,4 @@\n a\n-b\n+B\n c\n d\n');
+      const [chunk] = fileDiff.chunks;
+
+      const clean = mergeHunk(['z', 'a', 'b', 'c', 'D'], chunk, 0);
+      assert.deepStrictEqual(clean, { start: 1, end: 5, lines: ['a', 'B', 'c', 'D'], conflicts: 0 });
+
+      const conflicting = mergeHunk(['a', 'x', 'c', 'd', 'e'], chunk, 0, 'patch (hunk 1)');
+      assert.deepStrictEqual(conflicting.lines,
+        ['a', '<<<<<<< current', 'x', '=======', 'B', '>>>>>>> patch (hunk 1)', 'c', 'd']);
+      assert.deepStrictEqual([conflicting.start, conflicting.end, conflicting.conflicts], [0, 4, 1]);
+    });
+
+    it('parsePatchMessage: reads subject, body and author of format-patch output', () => {
+      const message = parsePatchMessage([
+        'From 063b7f85f4b19dce381763436e07098a6505a5cc Mon Sep 17 00:00:00 2001',
+        'From: =?UTF-8?q?J=C3=B6rg=20Doe?= <jd@example.com>',
+        'Date: Mon, 19 Oct 2026 17:05:04 +0000',
+        'Subject: [PATCH 2/3] Fix the greeting',
+        ' for everyone',
+        '',
+        'It said hello to nobody.',
+        '---',
+        ' greeting.txt | 2 +-',
+        '',
+        'diff --git a/greeting.txt b/greeting.txt',
+        ''
+      ].join('\n'));
+      assert.deepStrictEqual(message, {
+        subject: 'Fix the greeting for everyone',
+        body: 'It said hello to nobody.',
+        author: 'Jörg Doe <jd@example.com>',
+        date: 'Mon, 19 Oct 2026 17:05:04 +0000'
+      });
+      assert.strictEqual(parsePatchMessage('diff --git a/x b/x\n--- a/x\n+++ b/x\n'), undefined);
+    });
+
+    it('splitPatchSeries: splits format-patch --stdout output into its messages', () => {
+      const series = splitPatchSeries(formatPatchSeries([['Say hi', 'hello', 'hi'], ['Say hey', 'hi', 'hey']]));
+      assert.deepStrictEqual(series.map(patch => patch.message.subject), ['Say hi', 'Say hey']);
+      assert.ok(series[1].text.includes('-hi\n+hey'));
+      assert.deepStrictEqual(splitPatchSeries('--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n'), []);
+    });
+
+    it('stripPath + countCommonSuffix: strip levels and suffix matching', () => {
+      assert.strictEqual(stripPath('a/src/app.ts'), 'src/app.ts');
+      assert.strictEqual(stripPath('project/src/app.ts'), 'project/src/app.ts');
+      assert.strictEqual(stripPath('a/project/src/app.ts', 2), 'src/app.ts');
+      assert.strictEqual(stripPath('./src/app.ts', 0), 'src/app.ts');
+      assert.strictEqual(countCommonSuffix('pkg/src/app.ts', 'a/project/src/app.ts'), 2);
+      assert.strictEqual(countCommonSuffix('docs/app.ts', 'src/app.ts'), 1);
+      assert.strictEqual(countCommonSuffix('src/main.ts', 'src/app.ts'), 0);
+    });
+
+    it('extractDiffBlocks: flags blocks that change the same lines', () => {
+      const block = (replacement: string) =>
+        ['```diff', '--- a/x.txt', '+++ b/x.txt', '@@ -2,1 +2,1 @@', '-two', `+${replacement}`, '```'].join('\n');
+      const blocks = extractDiffBlocks(`First try:\n${block('2')}\nBetter:\n${block('TWO')}\n`);
+      assert.deepStrictEqual(blocks.map(b => b.conflictsWith), [[1], [0]]);
+      assert.deepStrictEqual(extractDiffBlocks('No diff here.\n- just a list\n'), []);
+    });
   });
 
   /* ────────── integration tests ────────── */
@@ -138,5 +645,601 @@ describe('Quick Diff Apply – Unit & Integration Tests', () => {
     it('Test for pair6', () => runFixtureTest('pair6'));
     it('Test for pair7', () => runFixtureTest('pair7'));
     it('Test for pair8', () => runFixtureTest('pair8'));
+    it('hunk located at an offset', () => runFixtureTest('offset-drift'));
+    it('conflicting hunk is left unapplied', () => runFixtureTest('conflict-skip'));
+    it('CRLF file keeps its line endings', () => runFixtureTest('crlf'));
+    it('missing final newline is added', () => runFixtureTest('no-newline-added'));
+    it('final newline is removed', () => runFixtureTest('no-newline-removed'));
+
+    it('multi-file patch is reviewed inline and applied as a whole', () => withTempWorkspace({
+      'src/one.txt': 'alpha\nbeta\ngamma\n',
+      'two.txt': 'red\ngreen\nblue\n'
+    }, async root => {
+      await vscode.env.clipboard.writeText([
+        'diff --git a/src/one.txt b/src/one.txt',
+        '--- a/src/one.txt',
+        '+++ b/src/one.txt',
+        '@@ -1,3 +1,3 @@',
+        ' alpha',
+        '-beta',
+        '+BETA',
+        ' gamma',
+        'diff --git a/two.txt b/two.txt',
+        '--- a/two.txt',
+        '+++ b/two.txt',
+        '@@ -1,3 +1,3 @@',
+        ' red',
+        '-green',
+        '+GREEN',
+        ' blue',
+        'diff --git a/three.txt b/three.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/three.txt',
+        '@@ -0,0 +1 @@',
+        '+created',
+        ''
+      ].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await withMessageResponse('showInformationMessage', () => 'Apply File Changes', async () => {
+        await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      });
+      await vscode.workspace.saveAll();
+
+      assert.strictEqual(fs.readFileSync(path.join(root, 'src', 'one.txt'), 'utf-8'), 'alpha\nBETA\ngamma\n');
+      assert.strictEqual(fs.readFileSync(path.join(root, 'two.txt'), 'utf-8'), 'red\nGREEN\nblue\n');
+      assert.strictEqual(fs.readFileSync(path.join(root, 'three.txt'), 'utf-8'), 'created\n');
+    }));
+
+    it('a created file only replaces an existing one when confirmed', () => withTempWorkspace({
+      'notes.txt': 'mine\n'
+    }, async root => {
+      const target = path.join(root, 'notes.txt');
+      const diff = ['diff --git a/notes.txt b/notes.txt', 'new file mode 100644', '--- /dev/null', '+++ b/notes.txt', '@@ -0,0 +1 @@', '+theirs', ''];
+      await vscode.env.clipboard.writeText(diff.join('\n'));
+      const applyDiff = (overwrite: string | undefined) =>
+        withMessageResponse('showInformationMessage', () => 'Apply File Changes', () =>
+          withMessageResponse('showWarningMessage', () => overwrite, async () => {
+            await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+          }));
+
+      await applyDiff(undefined);
+      assert.strictEqual(fs.readFileSync(target, 'utf-8'), 'mine\n');
+      await applyDiff('Overwrite');
+      assert.strictEqual(fs.readFileSync(target, 'utf-8'), 'theirs\n');
+    }));
+
+    it('a renamed or copied file only replaces an existing one when confirmed', () => withTempWorkspace({
+      'old.txt': 'moved\n',
+      'new.txt': 'mine\n',
+      'template.txt': 'copied\n',
+      'copy.txt': 'also mine\n'
+    }, async root => {
+      const read = (name: string) => fs.readFileSync(path.join(root, name), 'utf-8');
+      await vscode.env.clipboard.writeText([
+        'diff --git a/old.txt b/new.txt', 'similarity index 100%', 'rename from old.txt', 'rename to new.txt',
+        'diff --git a/template.txt b/copy.txt', 'similarity index 100%', 'copy from template.txt', 'copy to copy.txt',
+        ''
+      ].join('\n'));
+      const applyDiff = (overwrite: string | undefined) =>
+        withMessageResponse('showInformationMessage', () => 'Apply File Changes', () =>
+          withMessageResponse('showWarningMessage', () => overwrite, async () => {
+            await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+          }));
+
+      await applyDiff(undefined);
+      assert.deepStrictEqual([read('old.txt'), read('new.txt'), read('copy.txt')], ['moved\n', 'mine\n', 'also mine\n']);
+      await applyDiff('Overwrite');
+      assert.ok(!fs.existsSync(path.join(root, 'old.txt')));
+      assert.deepStrictEqual([read('new.txt'), read('copy.txt')], ['moved\n', 'copied\n']);
+    }));
+
+    it('the review overview lists files and hunks with their progress', () => withTempWorkspace({
+      'list.txt': 'a\nb\nc\nd\ne\nf\ng\nh\n',
+      'src/two.txt': 'red\ngreen\n'
+    }, async root => {
+      await vscode.env.clipboard.writeText([
+        '--- a/list.txt', '+++ b/list.txt',
+        '@@ -1,2 +1,2 @@', '-a', '+A', ' b',
+        '@@ -7,2 +7,2 @@', ' g', '-h', '+H',
+        '--- a/src/two.txt', '+++ b/src/two.txt',
+        '@@ -1,2 +1,3 @@', ' red', '+orange', ' green',
+        ''
+      ].join('\n'));
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', vscode.Uri.file(path.join(root, 'list.txt')), 0);
+
+      const tree = new ReviewTreeDataProvider();
+      const [patch] = tree.getChildren();
+      assert.strictEqual(tree.getTreeItem(patch).label, 'Patch');
+      assert.strictEqual(tree.getTreeItem(patch).description, '2 file(s) · 1/3 hunks decided');
+
+      const files = tree.getChildren(patch);
+      assert.deepStrictEqual(files.map(file => tree.getTreeItem(file).description), ['1/2', 'src · 0/1']);
+      const hunks = tree.getChildren(files[0]).map(hunk => tree.getTreeItem(hunk));
+      assert.deepStrictEqual(hunks.map(hunk => hunk.label), ['@@ -1,2 +1,2 @@', '@@ -7,2 +7,2 @@']);
+      assert.deepStrictEqual(hunks.map(hunk => hunk.description), ['+1 −1 · applied', '+1 −1 · pending']);
+      assert.deepStrictEqual(tree.getChildren(files[1]).map(hunk => tree.getTreeItem(hunk).description), ['+1 −0 · pending']);
+    }));
+
+    it('reverting a hunk restores its lines and shifts the hunks after it', () => withTempWorkspace({
+      'list.txt': 'a\nb\nc\nd\ne\nf\ng\nh\n'
+    }, async root => {
+      const target = path.join(root, 'list.txt');
+
+      await vscode.env.clipboard.writeText([
+        '--- a/list.txt',
+        '+++ b/list.txt',
+        '@@ -1,3 +1,4 @@',
+        ' a',
+        '+a2',
+        ' b',
+        ' c',
+        '@@ -6,3 +7,3 @@',
+        ' f',
+        '-g',
+        '+G',
+        ' h',
+        ''
+      ].join('\n'));
+
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 0);
+      await vscode.commands.executeCommand('quick-diff-apply.revertHunk', uri, 0);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), 'a\nb\nc\nd\ne\nf\ng\nh\n');
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 1);
+      await vscode.commands.executeCommand('quick-diff-apply.undoHunkDecision');
+      assert.strictEqual(doc.getText(), 'a\nb\nc\nd\ne\nf\ng\nh\n');
+      await vscode.commands.executeCommand('quick-diff-apply.redoHunkDecision');
+      assert.strictEqual(doc.getText(), 'a\nb\nc\nd\ne\nf\nG\nh\n');
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 0);
+      assert.strictEqual(doc.getText(), 'a\na2\nb\nc\nd\ne\nf\nG\nh\n');
+      await vscode.commands.executeCommand('quick-diff-apply.undoHunkDecision');
+      await vscode.commands.executeCommand('quick-diff-apply.undoHunkDecision');
+      assert.strictEqual(doc.getText(), 'a\nb\nc\nd\ne\nf\ng\nh\n');
+    }));
+
+    it('manual edits move hunks along and invalidate the hunks they touch', () => withTempWorkspace({
+      'numbers.txt': 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n'
+    }, async root => {
+      const target = path.join(root, 'numbers.txt');
+
+      await vscode.env.clipboard.writeText([
+        '--- a/numbers.txt',
+        '+++ b/numbers.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three',
+        '@@ -5,3 +5,3 @@',
+        ' five',
+        '-six',
+        '+SIX',
+        ' seven',
+        ''
+      ].join('\n'));
+
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+
+      // Lines that look like hunk 1's context are typed above it, and a line inside hunk 2
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(uri, new vscode.Position(0, 0), 'one\ntwo\nthree\n');
+      edit.insert(uri, new vscode.Position(5, 0), 'extra\n');
+      await vscode.workspace.applyEdit(edit);
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInFile', uri);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), 'one\ntwo\nthree\none\nTWO\nthree\nfour\nfive\nextra\nsix\nseven\n');
+    }));
+
+    it('a saved review resumes with its hunk decisions', () => withTempWorkspace({
+      'colors.txt': 'red\ngreen\nblue\ncyan\nmagenta\nyellow\n'
+    }, async root => {
+      const target = path.join(root, 'colors.txt');
+
+      await vscode.env.clipboard.writeText([
+        '--- a/colors.txt',
+        '+++ b/colors.txt',
+        '@@ -1,2 +1,2 @@',
+        '-red',
+        '+RED',
+        ' green',
+        '@@ -5,2 +5,2 @@',
+        ' magenta',
+        '-yellow',
+        '+YELLOW',
+        ''
+      ].join('\n'));
+
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 0);
+      await saveReview();
+
+      await vscode.commands.executeCommand('quick-diff-apply.resumeReview');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInFile', uri);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), 'red\ngreen\nblue\ncyan\nmagenta\nYELLOW\n');
+    }));
+
+    it('keyboard commands move between hunks and decide the current one', () => withTempWorkspace({
+      'letters.txt': 'a\nb\nc\nd\ne\nf\n'
+    }, async root => {
+      const target = path.join(root, 'letters.txt');
+
+      await vscode.env.clipboard.writeText([
+        '--- a/letters.txt',
+        '+++ b/letters.txt',
+        '@@ -1,2 +1,2 @@',
+        '-a',
+        '+A',
+        ' b',
+        '@@ -5,2 +5,2 @@',
+        ' e',
+        '-f',
+        '+F',
+        ''
+      ].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.nextHunk');
+      await vscode.commands.executeCommand('quick-diff-apply.applyCurrentHunk');
+      await vscode.commands.executeCommand('quick-diff-apply.rejectCurrentHunk');
+
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      assert.strictEqual(doc.getText(), 'a\nb\nc\nd\ne\nF\n');
+    }));
+
+    it('diffs are read from .patch files and untitled editors', () => withTempWorkspace({
+      'greeting.txt': 'hello\nworld\n'
+    }, async root => {
+      const target = path.join(root, 'greeting.txt');
+      const diff = (from: string, to: string) => [
+        '--- a/greeting.txt',
+        '+++ b/greeting.txt',
+        '@@ -1,2 +1,2 @@',
+        ' hello',
+        `-${from}`,
+        `+${to}`,
+        ''
+      ].join('\n');
+
+      const patchFile = path.join(root, 'fix.patch');
+      fs.writeFileSync(patchFile, diff('world', 'there'));
+      await vscode.commands.executeCommand('quick-diff-apply.applyPatchFile', vscode.Uri.file(patchFile));
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      assert.strictEqual(doc.getText(), 'hello\nthere\n');
+
+      const untitled = await vscode.workspace.openTextDocument({ content: diff('there', 'again'), language: 'diff' });
+      await vscode.window.showTextDocument(untitled);
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiffFromActiveEditor');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      assert.strictEqual(doc.getText(), 'hello\nagain\n');
+    }));
+
+    it('a chat diff without file header or line numbers goes to the chosen file', () => withTempWorkspace({
+      'calc.js': 'const a = 1;\n\nfunction add(x, y) {\n  return x - y;\n}\n'
+    }, async root => {
+      const target = path.join(root, 'calc.js');
+      await vscode.env.clipboard.writeText([
+        'The subtraction is a typo, fix it like this:',
+        '',
+        '```diff',
+        '@@ ... @@',
+        ' function add(x, y) {',
+        '-  return x - y;',
+        '+  return x + y;',
+        ' }',
+        '```',
+        ''
+      ].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff', vscode.Uri.file(target));
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      assert.strictEqual(doc.getText(), 'const a = 1;\n\nfunction add(x, y) {\n  return x + y;\n}\n');
+    }));
+
+    it('SEARCH/REPLACE blocks on the clipboard are reviewed as hunks', () => withTempWorkspace({
+      'config.ini': '[server]\nport = 80\nhost = localhost\n'
+    }, async root => {
+      const target = path.join(root, 'config.ini');
+      await vscode.env.clipboard.writeText([
+        'config.ini',
+        '<<<<<<< SEARCH',
+        'port = 80',
+        '=======',
+        'port = 8080',
+        '>>>>>>> REPLACE',
+        '<<<<<<< SEARCH',
+        'host = localhost',
+        '=======',
+        'host = 0.0.0.0',
+        '>>>>>>> REPLACE',
+        ''
+      ].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 1);
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), '[server]\nport = 8080\nhost = localhost\n');
+    }));
+
+    it('applying the selected lines of a hunk leaves the rest of it out', () => withTempWorkspace({
+      'list.txt': 'a\nb\nc\nd\n'
+    }, async root => {
+      const target = path.join(root, 'list.txt');
+      await vscode.env.clipboard.writeText(['--- a/list.txt', '+++ b/list.txt', '@@ -1,4 +1,4 @@', ' a', '-b', '-c', '+B', '+C', ' d', ''].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      const editor = vscode.window.activeTextEditor!;
+      assert.strictEqual(editor.document.uri.fsPath, vscode.Uri.file(target).fsPath);
+      // only the removal of "b" is under the cursor
+      editor.selection = new vscode.Selection(1, 0, 1, 0);
+      await vscode.commands.executeCommand('quick-diff-apply.applySelectedLines');
+      assert.strictEqual(editor.document.getText(), 'a\nc\nd\n');
+    }));
+
+    it('splitting a hunk keeps the decisions on the other hunks', async () => {
+      const numbers = Array.from({ length: 20 }, (_, i) => `${i + 1}`);
+      await withTempWorkspace({ 'numbers.txt': numbers.join('\n') + '\n' }, async root => {
+        const target = path.join(root, 'numbers.txt');
+        await vscode.env.clipboard.writeText([
+          '--- a/numbers.txt', '+++ b/numbers.txt',
+          '@@ -1,7 +1,7 @@', ' 1', '-2', '+two', ' 3', ' 4', ' 5', '-6', '+six', ' 7',
+          '@@ -15,3 +15,3 @@', ' 15', '-16', '+sixteen', ' 17',
+          ''
+        ].join('\n'));
+
+        await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+        const uri = vscode.Uri.file(target);
+        await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 1);
+        await vscode.commands.executeCommand('quick-diff-apply.splitHunk', uri, 0);
+        // the pieces are hunks 0 and 1; the rejected hunk moved to 2
+        await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 1);
+        await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+        const doc = await vscode.workspace.openTextDocument(uri);
+        assert.strictEqual(doc.getText(), numbers.map(n => n === '2' ? 'two' : n).join('\n') + '\n');
+      });
+    });
+
+    it('"Edit this Hunk" applies the edited lines, and cancelling keeps the hunk', () => withTempWorkspace({
+      'greeting.txt': 'hello\nworld\n'
+    }, async root => {
+      const uri = vscode.Uri.file(path.join(root, 'greeting.txt'));
+      await vscode.env.clipboard.writeText(
+        ['--- a/greeting.txt', '+++ b/greeting.txt', '@@ -1,2 +1,2 @@', '-hello', '+hi', ' world', ''].join('\n')
+      );
+      /** Type `text` into the hunk's edit editor, then answer the prompt with `answer`. */
+      const editHunk = (text: string, answer: string) => withMessageResponse('showInformationMessage', async () => {
+        const editor = vscode.window.activeTextEditor!;
+        assert.strictEqual(editor.document.getText(), 'hi\nworld');
+        await editor.edit(edit => edit.replace(new vscode.Range(0, 0, editor.document.lineCount, 0), text));
+        return answer;
+      }, async () => {
+        await vscode.commands.executeCommand('quick-diff-apply.editHunk', uri, 0);
+      });
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await editHunk('hey\nworld', 'Cancel');
+      await editHunk('hi there\nbig\nworld', 'Use Edited Hunk');
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), 'hello\nworld\n');
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 0);
+      assert.strictEqual(doc.getText(), 'hi there\nbig\nworld\n');
+    }));
+
+    it('"Unapply Diff from Clipboard" backs an applied diff out', () => withTempWorkspace({
+      'greeting.txt': 'hello\nbrave new\nworld\n'
+    }, async root => {
+      const target = path.join(root, 'greeting.txt');
+      await vscode.env.clipboard.writeText(
+        ['--- a/greeting.txt', '+++ b/greeting.txt', '@@ -1,2 +1,3 @@', ' hello', '+brave new', ' world', ''].join('\n')
+      );
+
+      await vscode.commands.executeCommand('quick-diff-apply.unapplyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      assert.strictEqual(doc.getText(), 'hello\nworld\n');
+    }));
+
+    it('rejected hunks are copied as a diff and written to a .rej file', () => withTempWorkspace({
+      'list.txt': Array.from({ length: 12 }, (_, i) => `item ${i + 1}`).join('\n') + '\n'
+    }, async root => {
+      const target = path.join(root, 'list.txt');
+      await vscode.env.clipboard.writeText([
+        '--- a/list.txt', '+++ b/list.txt',
+        '@@ -1,2 +1,3 @@', ' item 1', '+item 1.5', ' item 2',
+        '@@ -10,2 +11,2 @@', ' item 10', '-item 11', '+item eleven',
+        ''
+      ].join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 1);
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 0);
+
+      const expected = '--- a/list.txt\n+++ b/list.txt\n@@ -11,2 +11,2 @@\n item 10\n-item 11\n+item eleven\n';
+      await vscode.commands.executeCommand('quick-diff-apply.copyUnappliedHunks');
+      assert.strictEqual(await vscode.env.clipboard.readText(), expected);
+      await vscode.commands.executeCommand('quick-diff-apply.writeRejectFiles');
+      assert.strictEqual(fs.readFileSync(`${target}.rej`, 'utf-8'), expected);
+    }));
+
+    it('a hunk that does not apply is merged with conflict markers', () => withTempWorkspace({
+      'letters.txt': 'a\nx\nc\nd\n'
+    }, async root => {
+      const target = path.join(root, 'letters.txt');
+      await vscode.env.clipboard.writeText(
+        ['--- a/letters.txt', '+++ b/letters.txt', '@@ -1,4 +1,4 @@', ' a', '-b', '+B', ' c', ' d', ''].join('\n')
+      );
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      const uri = vscode.Uri.file(target);
+      await vscode.commands.executeCommand('quick-diff-apply.mergeHunk', uri, 0);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      assert.strictEqual(doc.getText(), 'a\n<<<<<<< current\nx\n=======\nB\n>>>>>>> patch (hunk 1)\nc\nd\n');
+    }));
+
+    it('diffs go to the git index without touching the working tree', async () => {
+      const original = Array.from({ length: 12 }, (_, i) => `item ${i + 1}`).join('\n') + '\n';
+      await withTempWorkspace({ 'list.txt': original }, async root => {
+        const git = (...args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf-8' });
+        const target = path.join(root, 'list.txt');
+        git('init', '-q');
+        git('add', 'list.txt');
+        git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'Add list');
+        const diff = [
+          '--- a/list.txt', '+++ b/list.txt',
+          '@@ -1,2 +1,3 @@', ' item 1', '+item 1.5', ' item 2',
+          '@@ -10,2 +11,2 @@', ' item 10', '-item 11', '+item eleven',
+          ''
+        ].join('\n');
+
+        await vscode.env.clipboard.writeText(diff);
+        await vscode.commands.executeCommand('quick-diff-apply.applyDiffToIndex');
+        assert.strictEqual(fs.readFileSync(target, 'utf-8'), original);
+        assert.ok(git('show', ':list.txt').includes('item 1.5\nitem 2'));
+        git('reset', '-q');
+
+        // only the hunk applied in the review is staged
+        await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+        const uri = vscode.Uri.file(target);
+        await vscode.commands.executeCommand('quick-diff-apply.skipHunk', uri, 1);
+        await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', uri, 0);
+        await vscode.commands.executeCommand('quick-diff-apply.stageAppliedHunks');
+        const staged = git('show', ':list.txt');
+        assert.ok(staged.includes('item 1.5'));
+        assert.ok(staged.includes('item 11\n'));
+      });
+    });
+
+    it('a hunk applied with fuzz is staged as it was written', () => withTempWorkspace({
+      'letters.txt': 'A\nb\nc\nd\n'
+    }, async root => {
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf-8' });
+      git('init', '-q');
+      git('add', 'letters.txt');
+      git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'Add letters');
+      // the first context line does not match: the hunk only applies with fuzz
+      await vscode.env.clipboard.writeText(
+        ['--- a/letters.txt', '+++ b/letters.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', ''].join('\n')
+      );
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyHunkOnly', vscode.Uri.file(path.join(root, 'letters.txt')), 0);
+      await vscode.commands.executeCommand('quick-diff-apply.stageAppliedHunks');
+      assert.strictEqual(git('show', ':letters.txt'), 'A\nB\nc\nd\n');
+    }));
+
+    it('a patch series is reviewed one patch at a time, each on top of the last', () => withTempWorkspace({
+      'greeting.txt': 'hello\nworld\n'
+    }, async root => {
+      const target = path.join(root, 'greeting.txt');
+      await vscode.env.clipboard.writeText(formatPatchSeries([['Say hi', 'hello', 'hi'], ['Say hey', 'hi', 'hey']]));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      assert.strictEqual(doc.getText(), 'hi\nworld\n');
+
+      // the second patch only applies on top of the first
+      await vscode.commands.executeCommand('quick-diff-apply.reviewNextPatch');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      assert.strictEqual(doc.getText(), 'hey\nworld\n');
+    }));
+
+    it('a resumed review goes on with the rest of its patch series', () => withTempWorkspace({
+      'greeting.txt': 'hello\nworld\n'
+    }, async root => {
+      const target = path.join(root, 'greeting.txt');
+      await vscode.env.clipboard.writeText(formatPatchSeries([['Say hi', 'hello', 'hi'], ['Say hey', 'hi', 'hey']]));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await saveReview();
+      await vscode.commands.executeCommand('quick-diff-apply.resumeReview');
+      const tree = new ReviewTreeDataProvider();
+      const [patch] = tree.getChildren();
+      assert.strictEqual(tree.getTreeItem(patch).label, 'Patch 1/2: Say hi');
+
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      await vscode.commands.executeCommand('quick-diff-apply.reviewNextPatch');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      assert.strictEqual(doc.getText(), 'hey\nworld\n');
+    }));
+
+    it('a hunk is looked for at the offset the hunk before it was found at', () => withTempWorkspace({
+      'repeats.txt': 'm\nk\nx\na\nb\nm\nk\n'
+    }, async root => {
+      const target = path.join(root, 'repeats.txt');
+      const diff = ['--- a/repeats.txt', '+++ b/repeats.txt', '@@ -1,2 +1,2 @@', ' a', '-b', '+B', '@@ -3,2 +3,2 @@', ' m', '-k', '+K', ''];
+      await vscode.env.clipboard.writeText(diff.join('\n'));
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      // the second "m k", three lines down like "a b", as applyPatchToContent picks it too
+      assert.strictEqual(doc.getText(), 'm\nk\nx\na\nB\nm\nK\n');
+    }));
+
+    it('paths with extra leading directories are matched by their ending', () => withTempWorkspace({
+      'src/greeting.txt': 'hello\nworld\n'
+    }, async root => {
+      const target = path.join(root, 'src', 'greeting.txt');
+      // made from the parent of the repository: one directory too many
+      await vscode.env.clipboard.writeText(
+        ['--- a/project/src/greeting.txt', '+++ b/project/src/greeting.txt', '@@ -1,2 +1,2 @@', '-hello', '+hi', ' world', ''].join('\n')
+      );
+
+      await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+      await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      assert.strictEqual(doc.getText(), 'hi\nworld\n');
+    }));
+
+    it('renamed file is moved and patched, copied file is created', () => withTempWorkspace({
+      'old.txt': 'one\ntwo\nthree\n',
+      'template.txt': 'keep me\n'
+    }, async root => {
+      await vscode.env.clipboard.writeText([
+        'diff --git a/old.txt b/new.txt',
+        'similarity index 80%',
+        'rename from old.txt',
+        'rename to new.txt',
+        '--- a/old.txt',
+        '+++ b/new.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three',
+        'diff --git a/template.txt b/copy.txt',
+        'similarity index 100%',
+        'copy from template.txt',
+        'copy to copy.txt',
+        ''
+      ].join('\n'));
+
+      await withMessageResponse('showInformationMessage', () => 'Apply File Changes', async () => {
+        await vscode.commands.executeCommand('quick-diff-apply.applyDiff');
+        await vscode.commands.executeCommand('quick-diff-apply.applyAllRemainingInReview');
+      });
+
+      assert.ok(!fs.existsSync(path.join(root, 'old.txt')));
+      assert.strictEqual(fs.readFileSync(path.join(root, 'new.txt'), 'utf-8'), 'one\nTWO\nthree\n');
+      assert.strictEqual(fs.readFileSync(path.join(root, 'copy.txt'), 'utf-8'), 'keep me\n');
+      assert.strictEqual(fs.readFileSync(path.join(root, 'template.txt'), 'utf-8'), 'keep me\n');
+    }));
   });
 });
\ No newline at end of file
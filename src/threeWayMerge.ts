@@ -0,0 +1,95 @@
+// src/threeWayMerge.ts
+import { Chunk } from 'parse-diff';
+import { commonLines, getHunkPostimage, getHunkPreimage } from './hunkMatcher';
+
+/* ────────────────────────────────────────────────────────── */
+/* Three-way merge of a hunk that does not apply (diff3)      */
+/* ────────────────────────────────────────────────────────── */
+
+/** A hunk merged into the target text. */
+export interface HunkMerge {
+  /** 0-based lines [start, end) of the target that the merge replaces. */
+  start: number;
+  end: number;
+  /** The merged lines, conflict markers included. */
+  lines: string[];
+  /** Number of `<<<<<<<` … `>>>>>>>` regions written. */
+  conflicts: number;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * The lines of `lines` that correspond to `base`: its common lines with a
+ * window around `expectedLine`, widened by the base lines before the first
+ * and after the last of them (they were probably edited in place). Without
+ * any common line, the lines the hunk header points at.
+ */
+function findBaseRegion(lines: string[], base: string[], expectedLine: number): { start: number; end: number } {
+  const clamp = (line: number) => Math.max(0, Math.min(line, lines.length));
+  const windowStart = clamp(expectedLine - base.length);
+  const window = lines.slice(windowStart, clamp(expectedLine + 2 * base.length));
+  const pairs = commonLines(base, window);
+  if (pairs.length === 0) {
+    return { start: clamp(expectedLine), end: clamp(expectedLine + base.length) };
+  }
+  const [firstBase, firstLine] = pairs[0];
+  const [lastBase, lastLine] = pairs[pairs.length - 1];
+  return {
+    start: clamp(windowStart + firstLine - firstBase),
+    end: clamp(windowStart + lastLine + 1 + (base.length - 1 - lastBase))
+  };
+}
+
+/**
+ * Merge a hunk into text it no longer applies to, like `git apply --3way`:
+ * the hunk's context and removed lines are the common ancestor, the target
+ * lines around `expectedLine` are one side and the hunk's result is the
+ * other. Where only one side changed a stretch its version is taken; where
+ * both changed it differently, both versions are written between
+ * `<<<<<<<`, `=======` and `>>>>>>>` markers.
+ */
+export function mergeHunk(lines: string[], chunk: Chunk, expectedLine: number, patchLabel = 'patch'): HunkMerge {
+  const base = getHunkPreimage(chunk);
+  const theirs = getHunkPostimage(chunk);
+  const { start, end } = findBaseRegion(lines, base, expectedLine);
+  const ours = lines.slice(start, end);
+
+  const inOurs = new Map(commonLines(base, ours));
+  const inTheirs = new Map(commonLines(base, theirs));
+  const merged: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  for (;;) {
+    // The next base line both sides kept unchanged ends the current stretch
+    let k = b;
+    while (k < base.length && !(inOurs.has(k) && inTheirs.has(k))) {k++;}
+    const stable = k < base.length;
+    const oEnd = stable ? inOurs.get(k)! : ours.length;
+    const tEnd = stable ? inTheirs.get(k)! : theirs.length;
+
+    const baseLines = base.slice(b, k);
+    const ourLines = ours.slice(o, oEnd);
+    const theirLines = theirs.slice(t, tEnd);
+    if (sameLines(ourLines, baseLines) || sameLines(ourLines, theirLines)) {
+      merged.push(...theirLines);
+    } else if (sameLines(theirLines, baseLines)) {
+      merged.push(...ourLines);
+    } else {
+      conflicts++;
+      merged.push('<<<<<<< current', ...ourLines, '=======', ...theirLines, `>>>>>>> ${patchLabel}`);
+    }
+
+    if (!stable) {break;}
+    merged.push(base[k]);
+    b = k + 1;
+    o = oEnd + 1;
+    t = tEnd + 1;
+  }
+  return { start, end, lines: merged, conflicts };
+}